@@ -0,0 +1,61 @@
+// Analytics dashboard: applies live data pushed by the extension
+(function () {
+    costKatana.onMessage(message => {
+        switch (message.command) {
+            case 'updateData':
+                updateAnalyticsDisplay(message.data);
+                showUpdateNotification();
+                break;
+        }
+    });
+
+    function updateAnalyticsDisplay(data) {
+        // Live backend data replaces the local fallback
+        ['offline-banner', 'local-history', 'local-history-days'].forEach(id => {
+            const element = document.getElementById(id);
+            if (element) element.remove();
+        });
+
+        const summary = data.summary || {};
+        const cursorSpecific = data.cursor_specific || {};
+
+        // Update stat cards
+        const statCards = document.querySelectorAll('.stat-card .stat-value');
+        if (statCards[0]) statCards[0].textContent = '$' + (summary.total_spending_this_month || '0.00');
+        if (statCards[1]) statCards[1].textContent = summary.budget_used || '0%';
+        if (statCards[2]) statCards[2].textContent = summary.active_projects || '0';
+        if (statCards[3]) statCards[3].textContent = cursorSpecific.total_requests || '0';
+
+        // Update usage details
+        const usageValues = document.querySelectorAll('.cursor-usage .usage-value');
+        if (usageValues[0]) usageValues[0].textContent = cursorSpecific.total_requests || '0';
+        if (usageValues[1]) usageValues[1].textContent = cursorSpecific.average_tokens_per_request || '0';
+
+        // Update timestamp
+        const timestamp = document.getElementById('last-updated');
+        if (timestamp) {
+            timestamp.textContent = 'Last updated: ' + new Date().toLocaleTimeString();
+        }
+    }
+
+    function showUpdateNotification() {
+        const notification = document.getElementById('update-notification');
+        if (notification) {
+            notification.classList.add('visible');
+            setTimeout(() => notification.classList.remove('visible'), 2000);
+        }
+    }
+
+    const refreshButton = document.querySelector('.refresh-btn');
+    if (refreshButton) {
+        // The shared script posts the refresh; this only shows that it is in progress
+        refreshButton.addEventListener('click', () => {
+            refreshButton.textContent = '⟳ Refreshing...';
+            refreshButton.disabled = true;
+            setTimeout(() => {
+                refreshButton.textContent = '🔄 Refresh';
+                refreshButton.disabled = false;
+            }, 1000);
+        });
+    }
+})();
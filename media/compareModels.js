@@ -0,0 +1,80 @@
+// Compare Models: sortable cost table. Costs are priced and formatted by the
+// extension, which posts new ones when output size or volume change.
+(function () {
+    const models = costKatana.data.rows;
+    let prices = new Map(costKatana.data.prices.map(price => [price.model, price]));
+    let sortKey = 'perCall';
+    let ascending = true;
+
+    function formatTokens(tokens) {
+        return tokens >= 1000000 ? Math.round(tokens / 1000000) + 'M' : Math.round(tokens / 1000) + 'k';
+    }
+
+    function readCount(id) {
+        return Math.max(0, Number(document.getElementById(id).value) || 0);
+    }
+
+    function escapeText(value) {
+        const span = document.createElement('span');
+        span.textContent = value;
+        return span.innerHTML;
+    }
+
+    function render() {
+        const outputTokens = readCount('output-tokens');
+        const filter = document.getElementById('filter').value.trim().toLowerCase();
+
+        const rows = models
+            .filter(row => !filter || [row.model, row.provider, row.tier].some(value => value.toLowerCase().includes(filter)))
+            .filter(row => prices.has(row.model))
+            .map(row => ({ ...prices.get(row.model), ...row, total: row.inputTokens + outputTokens }))
+            .sort((a, b) => {
+                const order = typeof a[sortKey] === 'string' ? a[sortKey].localeCompare(b[sortKey]) : a[sortKey] - b[sortKey];
+                return ascending ? order : -order;
+            });
+
+        document.getElementById('rows').innerHTML = rows.map(row => {
+            const exceeded = row.inputTokens > row.contextWindow;
+            const tight = !exceeded && row.total > row.contextWindow;
+            const context = exceeded
+                ? '<span class="error">⚠️ ' + formatTokens(row.contextWindow) + ', input exceeds it</span>'
+                : tight
+                    ? '<span class="warning">⚠️ ' + formatTokens(row.contextWindow) + ', no room for the output</span>'
+                    : formatTokens(row.contextWindow);
+            return '<tr class="' + (exceeded ? 'exceeded' : '') + '">'
+                + '<td>' + escapeText(row.model) + (row.overridden ? ' <span title="Workspace price override">✎</span>' : '') + '</td>'
+                + '<td>' + escapeText(row.provider) + '</td>'
+                + '<td>' + escapeText(row.tier) + '</td>'
+                + '<td class="number">' + row.inputTokens.toLocaleString() + '</td>'
+                + '<td class="number">' + escapeText(row.formatted.perCall) + '</td>'
+                + '<td class="number">' + escapeText(row.formatted.perThousand) + '</td>'
+                + '<td class="number">' + escapeText(row.formatted.perMonth) + '</td>'
+                + '<td class="number">' + context + '</td>'
+                + '</tr>';
+        }).join('');
+
+        document.querySelectorAll('th').forEach(th => {
+            th.classList.toggle('sorted-asc', th.dataset.key === sortKey && ascending);
+            th.classList.toggle('sorted-desc', th.dataset.key === sortKey && !ascending);
+        });
+    }
+
+    document.querySelectorAll('th').forEach(th => th.addEventListener('click', () => {
+        ascending = th.dataset.key === sortKey ? !ascending : true;
+        sortKey = th.dataset.key;
+        render();
+    }));
+
+    ['output-tokens', 'monthly-requests'].forEach(id => document.getElementById(id).addEventListener('input', () => {
+        costKatana.postMessage({ command: 'priceComparison', outputTokens: readCount('output-tokens'), monthlyRequests: readCount('monthly-requests') });
+    }));
+    document.getElementById('filter').addEventListener('input', render);
+    costKatana.onMessage(message => {
+        if (message.command === 'comparisonPrices') {
+            prices = new Map(message.prices.map(price => [price.model, price]));
+            render();
+        }
+    });
+
+    render();
+})();
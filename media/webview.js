@@ -0,0 +1,20 @@
+// Shared by every Cost Katana webview. Loaded before the page script, it reads
+// the page data and posts `{ command }` for buttons with a `data-command`.
+// Message shapes are defined in src/webview.ts.
+(function () {
+    const vscode = acquireVsCodeApi();
+    const dataElement = document.getElementById('cost-katana-data');
+
+    window.costKatana = {
+        data: dataElement ? JSON.parse(dataElement.textContent || 'null') : null,
+        postMessage: message => vscode.postMessage(message),
+        onMessage: handler => window.addEventListener('message', event => handler(event.data))
+    };
+
+    document.addEventListener('click', event => {
+        const target = event.target instanceof Element ? event.target.closest('[data-command]') : null;
+        if (target) {
+            vscode.postMessage({ command: target.dataset.command });
+        }
+    });
+})();
@@ -1,13 +1,20 @@
 import * as vscode from 'vscode';
+import { CredentialStore } from './credentials';
+import type { GitContext } from './gitContext';
+import type { PricingCatalogData } from './pricing';
+import { countTokens, getTokenizerFamily } from './tokenizer';
+import { HttpTransport, RequestPolicy, TransportError } from './transport';
 
-interface APIResponse<T = any> {
+export interface APIResponse<T = any> {
     success: boolean;
     data?: T;
     error?: string;
     message?: string;
+    // Set when the backend could not be reached at all
+    offline?: boolean;
 }
 
-interface UsageData {
+export interface UsageData {
     prompt: string;
     response: string;
     model: string;
@@ -15,7 +22,85 @@ interface UsageData {
         file_path?: string;
         language?: string;
         code_snippet?: string;
+        git?: GitContext;
     };
+    // Lets the backend drop duplicates when a queued event is replayed
+    idempotencyKey?: string;
+    // Original time of the interaction, preserved across offline replay
+    timestamp?: string;
+    // Backend project the usage is attributed to
+    projectId?: string;
+    // Workspace folder the interaction came from, with its project file tags
+    workspace?: {
+        name: string;
+        path: string;
+        tags?: string[];
+    };
+}
+
+// Narrows analytics to one project, e.g. the active folder's `.costkatana.json`
+export interface AnalyticsScope {
+    projectId?: string;
+    // Monthly budget in USD from the project file
+    budget?: number;
+}
+
+export interface TrackUsageResult {
+    cost: string;
+    tokens: number;
+    usage_id: string;
+    smart_tip: string;
+    suggestions: string[];
+    message: string;
+}
+
+// Result of `optimizePrompt`; the local compressor reports the same fields
+export interface PromptOptimization {
+    original_prompt: string;
+    optimized_prompt: string;
+    // Percentage of input tokens removed
+    token_reduction: number;
+    original_tokens: number;
+    optimized_tokens: number;
+    cost_savings: string;
+    quality_preserved: boolean;
+    suggestions: string[];
+}
+
+export interface AnalyticsData {
+    summary: {
+        total_spending_this_month: string;
+        budget_used: string;
+        active_projects: number;
+    };
+    cursor_specific: {
+        total_requests: number;
+        average_tokens_per_request: number;
+        recent_activity: RecentActivity[];
+    };
+}
+
+export interface RecentActivity {
+    model: string;
+    tokens: number;
+    cost: string;
+    timestamp: string;
+    usage_id?: string;
+}
+
+export interface Suggestion {
+    title: string;
+    description: string;
+    priority: string;
+    action: string;
+}
+
+export interface Project {
+    id: string;
+    name: string;
+    description: string;
+    created_at: string;
+    updated_at: string;
 }
 
 interface OptimizationData {
@@ -25,19 +110,25 @@ interface OptimizationData {
         language?: string;
         file_path?: string;
     };
+    projectId?: string;
 }
 
 interface WorkspaceData {
     name: string;
     path: string;
+    // Primary language and framework, kept for older backends
     language: string;
     framework: string;
+    languages?: string[];
+    frameworks?: string[];
+    llm_sdks?: string[];
 }
 
 interface CodeAnalysisData {
     code_snippet: string;
     language: string;
     file_path: string;
+    projectId?: string;
 }
 
 interface SuggestionsData {
@@ -51,43 +142,92 @@ interface ProjectData {
     description?: string;
 }
 
+const DEFAULT_POLICY: RequestPolicy = { timeoutMs: 15000, retries: 0 };
+const HEALTH_POLICY: RequestPolicy = { timeoutMs: 5000, retries: 0, bypassCircuit: true };
+
+// Read-only actions (and track_usage, which carries an idempotency key) are safe to retry
+const ACTION_POLICIES: Record<string, RequestPolicy> = {
+    get_analytics: { timeoutMs: 10000, retries: 3 },
+    get_projects: { timeoutMs: 10000, retries: 3 },
+    get_pricing_catalog: { timeoutMs: 10000, retries: 2 },
+    get_suggestions: { timeoutMs: 30000, retries: 1 },
+    track_usage: { timeoutMs: 10000, retries: 2 },
+    optimize_prompt: { timeoutMs: 30000, retries: 0 },
+    analyze_code: { timeoutMs: 30000, retries: 0 },
+    generate_magic_link: { timeoutMs: 10000, retries: 0 },
+    workspace_setup: { timeoutMs: 15000, retries: 0 },
+    create_project: { timeoutMs: 15000, retries: 0 }
+};
+
+function parseResponseBody<T>(text: string): APIResponse<T> | undefined {
+    if (!text) {
+        return undefined;
+    }
+    try {
+        const parsed = JSON.parse(text);
+        return parsed && typeof parsed === 'object' ? parsed as APIResponse<T> : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+// Turn an HTML or plain-text error page into a short readable message
+function summarizeErrorBody(text: string): string | undefined {
+    const summary = text
+        .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return summary ? summary.substring(0, 200) : undefined;
+}
+
 export class CostKatanaAPI {
+    private readonly transport = new HttpTransport();
     private baseUrl: string;
-    private apiKey: string | undefined;
     private userId: string | undefined;
 
-    // Getter for apiKey to allow external access
-    get hasApiKey(): boolean {
-        return !!this.apiKey;
+    // API key lives in SecretStorage and is read on demand
+    async hasApiKey(): Promise<boolean> {
+        return !!(await this.credentials.getApiKey());
     }
 
-    constructor() {
+    // True while the backend is considered down and background calls should pause
+    get isCircuitOpen(): boolean {
+        return this.transport.circuit.isOpen;
+    }
+
+    constructor(private readonly credentials: CredentialStore) {
         console.log('🔧 Initializing CostKatanaAPI');
         const config = vscode.workspace.getConfiguration('costKatana');
         this.baseUrl = config.get('backendUrl') || 'https://api.costkatana.com/api';
-        this.apiKey = config.get('apiKey');
         this.userId = config.get('userId');
         
         console.log('🔧 API Configuration:');
         console.log('  - Base URL:', this.baseUrl);
-        console.log('  - API Key:', this.apiKey ? '✅ Configured' : '❌ Not configured');
         console.log('  - User ID:', this.userId || '❌ Not configured');
     }
 
     private async makeRequest<T>(
         endpoint: string,
         method: 'GET' | 'POST' = 'GET',
-        data?: any
+        data?: any,
+        extraHeaders: Record<string, string> = {}
     ): Promise<APIResponse<T>> {
+        const policy = endpoint.includes('health')
+            ? HEALTH_POLICY
+            : ACTION_POLICIES[data?.action] || DEFAULT_POLICY;
+
         try {
             const url = `${this.baseUrl}${endpoint}`;
             const headers: Record<string, string> = {
                 'Content-Type': 'application/json',
+                ...extraHeaders
             };
 
             // Add authentication headers if available
-            if (this.apiKey) {
-                headers['Authorization'] = `Bearer ${this.apiKey}`;
+            const apiKey = await this.credentials.getApiKey();
+            if (apiKey) {
+                headers['Authorization'] = `Bearer ${apiKey}`;
             }
 
             console.log(`🌐 Making ${method} request to: ${url}`);
@@ -102,45 +242,48 @@ export class CostKatanaAPI {
                 body: data ? JSON.stringify(data) : undefined,
             };
 
-            console.log('⏳ Sending request...');
-            const response = await fetch(url, requestOptions);
+            console.log('⏳ Sending request...', { timeoutMs: policy.timeoutMs, retries: policy.retries });
+            const response = await this.transport.request(url, requestOptions, policy);
             console.log('✅ Response received:', {
                 status: response.status,
-                statusText: response.statusText,
-                headers: Object.fromEntries(response.headers.entries())
+                statusText: response.statusText
             });
 
-            const result = await response.json() as APIResponse<T>;
-            console.log('📄 Response data:', JSON.stringify(result, null, 2));
+            const result = parseResponseBody<T>(response.text);
 
-            if (!response.ok) {
+            if (!response.ok || !result) {
+                const errorText = result?.error || (result ? undefined : summarizeErrorBody(response.text));
                 console.error('❌ Request failed:', {
                     status: response.status,
                     statusText: response.statusText,
-                    error: result.error,
-                    message: result.message
+                    error: errorText,
+                    message: result?.message
                 });
                 return {
                     success: false,
-                    error: (result as any).error || `HTTP ${response.status}: ${response.statusText}`,
-                    message: (result as any).message || 'Request failed'
+                    error: errorText || `HTTP ${response.status}: ${response.statusText}`,
+                    message: result?.message || 'Request failed'
                 };
             }
 
+            console.log('📄 Response data:', JSON.stringify(result, null, 2));
             return result;
         } catch (error) {
             console.error('❌ API request failed:', error);
             
-            if (error instanceof TypeError && error.message.includes('fetch')) {
+            if (error instanceof TransportError) {
                 console.error('🔍 Network error details:', {
                     baseUrl: this.baseUrl,
-                    error: error.message,
-                    stack: error.stack
+                    kind: error.kind,
+                    error: error.message
                 });
                 return {
                     success: false,
-                    error: `Cannot connect to backend server. Please check if the backend URL is correct: ${this.baseUrl}`,
-                    message: 'Network connection failed'
+                    error: error.kind === 'network'
+                        ? `Cannot connect to backend server. Please check if the backend URL is correct: ${this.baseUrl}`
+                        : error.message,
+                    message: 'Network connection failed',
+                    offline: true
                 };
             }
             
@@ -153,13 +296,18 @@ export class CostKatanaAPI {
     }
 
     // ===== CURSOR-SPECIFIC APIs (MATCHING BACKEND) =====
-    async generateMagicLink(email: string): Promise<APIResponse<{ magic_link: string }>> {
+    async generateMagicLink(
+        email: string,
+        signIn?: { state: string; redirectUri: string }
+    ): Promise<APIResponse<{ magic_link: string }>> {
         console.log('🔗 Generating magic link for email:', email);
         
         // Try the cursor-specific endpoint first
         const cursorResponse = await this.makeRequest<{ magic_link: string }>('/cursor/action', 'POST', {
             action: 'generate_magic_link',
-            email
+            email,
+            state: signIn?.state,
+            redirect_uri: signIn?.redirectUri
         });
         
         if (cursorResponse.success) {
@@ -170,7 +318,9 @@ export class CostKatanaAPI {
         // Fallback to direct magic link endpoint
         console.log('⚠️ Cursor endpoint failed, trying direct magic link endpoint');
         return this.makeRequest<{ magic_link: string }>('/auth/magic-link', 'POST', {
-            email
+            email,
+            state: signIn?.state,
+            redirect_uri: signIn?.redirectUri
         });
     }
 
@@ -201,60 +351,57 @@ export class CostKatanaAPI {
         };
     }
 
-    async trackUsage(usageData: UsageData): Promise<APIResponse<{
-        cost: string;
-        tokens: number;
-        usage_id: string;
-        smart_tip: string;
-        suggestions: string[];
-        message: string;
-    }>> {
+    async trackUsage(usageData: UsageData): Promise<APIResponse<TrackUsageResult>> {
         console.log('📊 Tracking usage:', {
             model: usageData.model,
             promptLength: usageData.prompt.length,
             responseLength: usageData.response.length,
-            context: usageData.codeContext
+            context: usageData.codeContext,
+            idempotencyKey: usageData.idempotencyKey
         });
 
+        const promptTokens = countTokens(usageData.prompt, usageData.model);
+        const completionTokens = countTokens(usageData.response, usageData.model);
+
+        const headers: Record<string, string> = {};
+        if (usageData.idempotencyKey) {
+            headers['Idempotency-Key'] = usageData.idempotencyKey;
+        }
+
         return this.makeRequest('/cursor/action', 'POST', {
             action: 'track_usage',
             user_id: this.userId,
-            api_key: this.apiKey,
+            project_id: usageData.projectId,
+            idempotency_key: usageData.idempotencyKey,
             ai_request: {
                 prompt: usageData.prompt,
                 response: usageData.response,
                 model: usageData.model,
                 request_type: 'code_generation',
                 success: true,
+                timestamp: usageData.timestamp,
                 tokens_used: {
-                    prompt_tokens: Math.ceil(usageData.prompt.length / 4),
-                    completion_tokens: Math.ceil(usageData.response.length / 4),
-                    total_tokens: Math.ceil(usageData.prompt.length / 4) + Math.ceil(usageData.response.length / 4)
+                    prompt_tokens: promptTokens,
+                    completion_tokens: completionTokens,
+                    total_tokens: promptTokens + completionTokens,
+                    tokenizer: getTokenizerFamily(usageData.model)
                 }
             },
             code_context: usageData.codeContext,
             workspace: {
-                name: vscode.workspace.name || 'Unknown Workspace',
-                path: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '',
-                language: usageData.codeContext?.language || 'unknown'
+                name: usageData.workspace?.name || vscode.workspace.name || 'Unknown Workspace',
+                path: usageData.workspace?.path || '',
+                language: usageData.codeContext?.language || 'unknown',
+                tags: usageData.workspace?.tags
             }
-        });
+        }, headers);
     }
 
-    async optimizePrompt(optimizationData: OptimizationData): Promise<APIResponse<{
-        original_prompt: string;
-        optimized_prompt: string;
-        token_reduction: number;
-        original_tokens: number;
-        optimized_tokens: number;
-        cost_savings: string;
-        quality_preserved: boolean;
-        suggestions: string[];
-    }>> {
+    async optimizePrompt(optimizationData: OptimizationData): Promise<APIResponse<PromptOptimization>> {
         return this.makeRequest('/cursor/action', 'POST', {
             action: 'optimize_prompt',
             user_id: this.userId,
-            api_key: this.apiKey,
+            project_id: optimizationData.projectId,
             optimization_request: {
                 prompt: optimizationData.prompt,
                 current_tokens: optimizationData.currentTokens,
@@ -266,27 +413,12 @@ export class CostKatanaAPI {
         });
     }
 
-    async getAnalytics(): Promise<APIResponse<{
-        summary: {
-            total_spending_this_month: string;
-            budget_used: string;
-            active_projects: number;
-        };
-        cursor_specific: {
-            total_requests: number;
-            average_tokens_per_request: number;
-            recent_activity: Array<{
-                model: string;
-                tokens: number;
-                cost: string;
-                timestamp: string;
-            }>;
-        };
-    }>> {
+    async getAnalytics(scope: AnalyticsScope = {}): Promise<APIResponse<AnalyticsData>> {
         return this.makeRequest('/cursor/action', 'POST', {
             action: 'get_analytics',
             user_id: this.userId,
-            api_key: this.apiKey
+            project_id: scope.projectId,
+            project_budget: scope.budget
         });
     }
 
@@ -298,18 +430,12 @@ export class CostKatanaAPI {
         return this.makeRequest('/cursor/action', 'POST', {
             action: 'workspace_setup',
             user_id: this.userId,
-            api_key: this.apiKey,
             workspace: workspaceData
         });
     }
 
     async getSuggestions(suggestionsData: SuggestionsData): Promise<APIResponse<{
-        suggestions: Array<{
-            title: string;
-            description: string;
-            priority: string;
-            action: string;
-        }>;
+        suggestions: Suggestion[];
         context: {
             language: string;
             file_path: string;
@@ -318,7 +444,6 @@ export class CostKatanaAPI {
         return this.makeRequest('/cursor/action', 'POST', {
             action: 'get_suggestions',
             user_id: this.userId,
-            api_key: this.apiKey,
             code_context: {
                 code_snippet: suggestionsData.code_snippet,
                 language: suggestionsData.language,
@@ -341,7 +466,7 @@ export class CostKatanaAPI {
         return this.makeRequest('/cursor/action', 'POST', {
             action: 'analyze_code',
             user_id: this.userId,
-            api_key: this.apiKey,
+            project_id: analysisData.projectId,
             code_context: {
                 code_snippet: analysisData.code_snippet,
                 language: analysisData.language,
@@ -351,18 +476,11 @@ export class CostKatanaAPI {
     }
 
     async getProjects(): Promise<APIResponse<{
-        projects: Array<{
-            id: string;
-            name: string;
-            description: string;
-            created_at: string;
-            updated_at: string;
-        }>;
+        projects: Project[];
     }>> {
         return this.makeRequest('/cursor/action', 'POST', {
             action: 'get_projects',
-            user_id: this.userId,
-            api_key: this.apiKey
+            user_id: this.userId
         });
     }
 
@@ -374,19 +492,32 @@ export class CostKatanaAPI {
         return this.makeRequest('/cursor/action', 'POST', {
             action: 'create_project',
             user_id: this.userId,
-            api_key: this.apiKey,
-            name: projectData.name
+            name: projectData.name,
+            description: projectData.description
+        });
+    }
+
+    async getPricingCatalog(): Promise<APIResponse<{
+        catalog: PricingCatalogData;
+    }>> {
+        return this.makeRequest('/cursor/action', 'POST', {
+            action: 'get_pricing_catalog',
+            user_id: this.userId
         });
     }
 
     // ===== UTILITY METHODS =====
-    updateApiKey(apiKey: string) {
-        this.apiKey = apiKey;
-        // Update VS Code settings
-        vscode.workspace.getConfiguration('costKatana').update('apiKey', apiKey, true);
+    async updateApiKey(apiKey: string) {
+        // Stored in SecretStorage, never in settings
+        await this.credentials.setApiKey(apiKey);
+    }
+
+    async signOut() {
+        await this.credentials.deleteApiKey();
+        this.updateUserId(undefined);
     }
 
-    updateUserId(userId: string) {
+    updateUserId(userId: string | undefined) {
         this.userId = userId;
         // Update VS Code settings
         vscode.workspace.getConfiguration('costKatana').update('userId', userId, true);
@@ -412,20 +543,25 @@ export class CostKatanaAPI {
     }
 
     // ===== REAL-TIME TRACKING =====
-    async startRealTimeTracking(): Promise<void> {
-        // Simple polling for now
-        setInterval(async () => {
+    startRealTimeTracking(onUpdate: (analytics: APIResponse<AnalyticsData>) => void): vscode.Disposable {
+        const poll = async () => {
+            if (this.isCircuitOpen) {
+                onUpdate({ success: false, error: 'Backend unavailable', offline: true });
+                return;
+            }
+            // Only the focused window polls
+            if (!vscode.window.state.focused || !(await this.hasApiKey())) {
+                return;
+            }
             try {
-                const analytics = await this.getAnalytics();
-                if (analytics.success && analytics.data) {
-                    // Show status update
-                    vscode.window.showInformationMessage(
-                        `📊 Cost Katana Status: ${analytics.data.summary.budget_used} budget used`
-                    );
-                }
+                onUpdate(await this.getAnalytics());
             } catch (error) {
                 // Silent fail for background polling
             }
-        }, 60000); // Poll every minute
+        };
+
+        poll();
+        const interval = setInterval(poll, 60000); // Poll every minute
+        return new vscode.Disposable(() => clearInterval(interval));
     }
-} 
\ No newline at end of file
+}
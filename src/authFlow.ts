@@ -0,0 +1,124 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+
+export interface AuthCallback {
+    apiKey: string;
+    userId: string;
+    email?: string;
+}
+
+interface PendingSignIn {
+    state: string;
+    // Settled by the callback, which may arrive before anyone waits for it
+    result: Promise<AuthCallback>;
+    resolve: (callback: AuthCallback) => void;
+    reject: (error: Error) => void;
+}
+
+const EXTENSION_ID = 'abdulsagheer.cost-katana-ai-optimizer';
+const CALLBACK_PATH = '/auth';
+
+export class SignInCancelledError extends Error {
+    constructor(message = 'Sign-in was cancelled') {
+        super(message);
+        this.name = 'SignInCancelledError';
+    }
+}
+
+/**
+ * Completes the magic-link sign-in by receiving credentials on
+ * `<scheme>://abdulsagheer.cost-katana-ai-optimizer/auth`. Each sign-in
+ * attempt carries a random state nonce that the callback must echo back.
+ */
+export class MagicLinkAuthHandler implements vscode.UriHandler {
+    private pending: PendingSignIn | undefined;
+
+    // Start a sign-in attempt, replacing any attempt still in progress. The
+    // state is registered before the link is sent, so a fast callback is not lost.
+    beginSignIn(): string {
+        this.pending?.reject(new SignInCancelledError('A newer sign-in attempt was started'));
+
+        const state = randomBytes(16).toString('hex');
+        let resolve!: (callback: AuthCallback) => void;
+        let reject!: (error: Error) => void;
+        const result = new Promise<AuthCallback>((onResolve, onReject) => {
+            resolve = onResolve;
+            reject = onReject;
+        });
+        // Handled in waitForCallback; an attempt that is never awaited must not raise
+        result.catch(() => undefined);
+
+        this.pending = { state, result, resolve, reject };
+        return state;
+    }
+
+    // Abandon an attempt whose magic link could not be sent
+    cancelSignIn(state: string) {
+        if (this.pending?.state === state) {
+            this.pending.reject(new SignInCancelledError());
+            this.pending = undefined;
+        }
+    }
+
+    // External URI the backend should redirect to once the link is confirmed
+    async getRedirectUri(): Promise<string> {
+        const callbackUri = vscode.Uri.parse(`${vscode.env.uriScheme}://${EXTENSION_ID}${CALLBACK_PATH}`);
+        const externalUri = await vscode.env.asExternalUri(callbackUri);
+        return externalUri.toString(true);
+    }
+
+    waitForCallback(state: string, token: vscode.CancellationToken, timeoutMs: number): Promise<AuthCallback> {
+        const pending = this.pending;
+        if (!pending || pending.state !== state) {
+            return Promise.reject(new SignInCancelledError('A newer sign-in attempt was started'));
+        }
+
+        const timer = setTimeout(() => pending.reject(new Error('Timed out waiting for magic link confirmation')), timeoutMs);
+        const cancellation = token.onCancellationRequested(() => pending.reject(new SignInCancelledError()));
+
+        return pending.result.finally(() => {
+            clearTimeout(timer);
+            cancellation.dispose();
+            if (this.pending === pending) {
+                this.pending = undefined;
+            }
+        });
+    }
+
+    handleUri(uri: vscode.Uri): void {
+        console.log('🔗 Received URI callback:', uri.path);
+        if (uri.path !== CALLBACK_PATH) {
+            return;
+        }
+
+        const params = new URLSearchParams(uri.query);
+        const state = params.get('state');
+
+        if (!this.pending || !state || state !== this.pending.state) {
+            console.warn('⚠️ Ignoring sign-in callback with unknown or expired state');
+            vscode.window.showErrorMessage(
+                'This sign-in link has expired or was not started from this window. Please run "Cost Katana: Connect Account" again.'
+            );
+            return;
+        }
+
+        const error = params.get('error');
+        if (error) {
+            this.pending.reject(new Error(error));
+            return;
+        }
+
+        const apiKey = params.get('api_key');
+        const userId = params.get('user_id');
+        if (!apiKey || !userId) {
+            this.pending.reject(new Error('Sign-in callback did not include credentials'));
+            return;
+        }
+
+        this.pending.resolve({
+            apiKey,
+            userId,
+            email: params.get('email') || undefined
+        });
+    }
+}
@@ -0,0 +1,244 @@
+import * as vscode from 'vscode';
+import { exceedsBudget, SpendForecast } from './costForecast';
+import { formatCost } from './pricing';
+
+interface AlertRecord {
+    firedAt: string;
+    acknowledged: boolean;
+    snoozedUntil?: string;
+}
+
+interface AlertHistory {
+    // Budget period the records belong to, e.g. "2025-06"
+    period: string;
+    alerts: Record<string, AlertRecord>;
+    // Month-end projection over budget, warned once per period like a threshold
+    forecast?: AlertRecord;
+    snoozedUntil?: string;
+    lastBudgetPercent?: number;
+}
+
+const HISTORY_KEY = 'costKatana.budgetAlertHistory';
+const DEFAULT_THRESHOLDS = [50, 80, 100];
+const SNOOZE_OPTIONS: Array<{ label: string; hours?: number }> = [
+    { label: '1 hour', hours: 1 },
+    { label: '1 day', hours: 24 },
+    { label: '1 week', hours: 24 * 7 },
+    { label: 'Until next month' }
+];
+
+/**
+ * Fires each configured budget threshold once per monthly period. Alert
+ * history lives in global state so acknowledged alerts stay quiet across
+ * restarts and windows.
+ */
+export class BudgetAlertManager {
+    private confirmedThisSession = false;
+    private alertVisible = false;
+
+    constructor(private readonly state: vscode.Memento) {}
+
+    get budgetPercent(): number | undefined {
+        return this.getHistory().lastBudgetPercent;
+    }
+
+    async evaluate(budgetPercent: number | undefined) {
+        if (budgetPercent === undefined) {
+            return;
+        }
+
+        const history = this.getHistory();
+        history.lastBudgetPercent = budgetPercent;
+        await this.saveHistory(history);
+
+        if (this.alertVisible || isSnoozed(history.snoozedUntil)) {
+            return;
+        }
+
+        // Only the highest newly reached threshold is shown
+        const due = getThresholds()
+            .filter(threshold => budgetPercent >= threshold)
+            .filter(threshold => {
+                const record = history.alerts[threshold];
+                return !record || (!record.acknowledged && !isSnoozed(record.snoozedUntil));
+            })
+            .pop();
+
+        if (due === undefined) {
+            return;
+        }
+
+        // Lower thresholds passed at the same time count as handled
+        for (const threshold of getThresholds().filter(t => t < due && budgetPercent >= t)) {
+            history.alerts[threshold] = history.alerts[threshold] || { firedAt: new Date().toISOString(), acknowledged: true };
+        }
+        history.alerts[due] = { firedAt: new Date().toISOString(), acknowledged: false };
+        await this.saveHistory(history);
+
+        this.alertVisible = true;
+        try {
+            await this.showAlert(due, budgetPercent);
+        } finally {
+            this.alertVisible = false;
+        }
+    }
+
+    async evaluateForecast(forecast: SpendForecast | undefined) {
+        const enabled = vscode.workspace.getConfiguration('costKatana.budget').get<boolean>('forecastWarning', true);
+        if (!enabled || !forecast || !exceedsBudget(forecast) || this.alertVisible) {
+            return;
+        }
+
+        const history = this.getHistory();
+        const record = history.forecast;
+        // Once the budget is actually exhausted the threshold alerts take over
+        if (isSnoozed(history.snoozedUntil) || (history.lastBudgetPercent ?? 0) >= 100
+            || (record && (record.acknowledged || isSnoozed(record.snoozedUntil)))) {
+            return;
+        }
+        history.forecast = { firedAt: new Date().toISOString(), acknowledged: false };
+        await this.saveHistory(history);
+
+        this.alertVisible = true;
+        try {
+            const selection = await vscode.window.showWarningMessage(
+                `📈 Cost Katana: at this machine's recent daily spend, the month is projected to reach ${formatCost(forecast.month.projected)} by the end of ${forecast.month.label} ` +
+                `(likely ${formatCost(forecast.month.low)}–${formatCost(forecast.month.high)}), over your ${formatCost(forecast.budget!)} budget`,
+                'Show Analytics',
+                'Snooze 1 Day'
+            );
+
+            const updated = this.getHistory();
+            if (!updated.forecast) {
+                return;
+            }
+            if (selection === 'Snooze 1 Day') {
+                updated.forecast = { ...updated.forecast, snoozedUntil: snoozeUntil(24) };
+            } else {
+                updated.forecast = { ...updated.forecast, acknowledged: true };
+                if (selection === 'Show Analytics') {
+                    vscode.commands.executeCommand('cost-katana.show-analytics');
+                }
+            }
+            await this.saveHistory(updated);
+        } finally {
+            this.alertVisible = false;
+        }
+    }
+
+    // Hard warning mode: ask before tracking once the budget is exhausted
+    async confirmTracking(): Promise<boolean> {
+        const hardWarning = vscode.workspace.getConfiguration('costKatana.budget').get<boolean>('hardWarning', false);
+        const budgetPercent = this.budgetPercent;
+        if (!hardWarning || this.confirmedThisSession || budgetPercent === undefined || budgetPercent < 100) {
+            return true;
+        }
+
+        const choice = await vscode.window.showWarningMessage(
+            `Your Cost Katana budget is exhausted (${formatPercent(budgetPercent)} used). Continue with this AI request?`,
+            { modal: true },
+            'Continue',
+            'Continue for This Session'
+        );
+
+        if (choice === 'Continue for This Session') {
+            this.confirmedThisSession = true;
+        }
+        return choice !== undefined;
+    }
+
+    async snooze() {
+        const choice = await vscode.window.showQuickPick(SNOOZE_OPTIONS.map(option => option.label), {
+            placeHolder: 'Snooze budget alerts for...'
+        });
+        const option = SNOOZE_OPTIONS.find(o => o.label === choice);
+        if (!option) {
+            return;
+        }
+
+        const history = this.getHistory();
+        history.snoozedUntil = snoozeUntil(option.hours);
+        await this.saveHistory(history);
+        vscode.window.showInformationMessage(`🔕 Budget alerts snoozed until ${new Date(history.snoozedUntil).toLocaleString()}`);
+    }
+
+    private async showAlert(threshold: number, budgetPercent: number) {
+        const message = `💸 Cost Katana: ${formatPercent(budgetPercent)} of your monthly budget used (alert at ${threshold}%)`;
+        const actions = ['Show Analytics', 'Snooze 1 Day'];
+        const selection = threshold >= 100
+            ? await vscode.window.showErrorMessage(message, ...actions)
+            : threshold >= 80
+                ? await vscode.window.showWarningMessage(message, ...actions)
+                : await vscode.window.showInformationMessage(message, ...actions);
+
+        const history = this.getHistory();
+        const record = history.alerts[threshold];
+        if (!record) {
+            return;
+        }
+
+        if (selection === 'Snooze 1 Day') {
+            record.snoozedUntil = snoozeUntil(24);
+        } else {
+            record.acknowledged = true;
+            if (selection === 'Show Analytics') {
+                vscode.commands.executeCommand('cost-katana.show-analytics');
+            }
+        }
+        await this.saveHistory(history);
+    }
+
+    private getHistory(): AlertHistory {
+        const period = currentPeriod();
+        const history = this.state.get<AlertHistory>(HISTORY_KEY);
+        if (!history || history.period !== period) {
+            // New period: previous alerts and snoozes no longer apply
+            return { period, alerts: {}, lastBudgetPercent: undefined };
+        }
+        return { ...history, alerts: { ...history.alerts } };
+    }
+
+    private saveHistory(history: AlertHistory): Thenable<void> {
+        return this.state.update(HISTORY_KEY, history);
+    }
+}
+
+export function parseBudgetPercent(value: string | number | undefined): number | undefined {
+    const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Monthly budget in USD implied by the backend's spend and budget used
+export function budgetFromSummary(summary: { total_spending_this_month: string; budget_used: string }): number | undefined {
+    const spent = parseFloat(summary.total_spending_this_month);
+    const percent = parseBudgetPercent(summary.budget_used);
+    return Number.isFinite(spent) && spent > 0 && percent !== undefined && percent > 0 ? spent / (percent / 100) : undefined;
+}
+
+export function formatPercent(value: number): string {
+    return `${Math.round(value * 10) / 10}%`;
+}
+
+// Workspace settings override the user-level thresholds
+function getThresholds(): number[] {
+    const thresholds = vscode.workspace
+        .getConfiguration('costKatana.budget')
+        .get<number[]>('alertThresholds', DEFAULT_THRESHOLDS);
+    return [...new Set(thresholds.filter(t => typeof t === 'number' && t > 0))].sort((a, b) => a - b);
+}
+
+function currentPeriod(date = new Date()): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function isSnoozed(until: string | undefined): boolean {
+    return !!until && Date.parse(until) > Date.now();
+}
+
+function snoozeUntil(hours: number | undefined): string {
+    if (hours === undefined) {
+        const now = new Date();
+        return new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString();
+    }
+    return new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+}
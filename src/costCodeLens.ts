@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import { findLlmCallSites } from './llmCallSites';
+import { formatCost, PricingCatalog, TYPICAL_REQUEST } from './pricing';
+import { countTokens } from './tokenizer';
+
+// Arguments passed to `cost-katana.get-model-recommendations` from a lens
+export interface CallSiteRecommendation {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    uri: vscode.Uri;
+    modelRange?: vscode.Range;
+}
+
+export const CODE_LENS_SELECTOR: vscode.DocumentSelector = [
+    { language: 'typescript' },
+    { language: 'typescriptreact' },
+    { language: 'javascript' },
+    { language: 'javascriptreact' },
+    { language: 'python' }
+];
+
+/**
+ * Shows a per-call cost estimate above each LLM SDK call site, priced from
+ * the local catalog. Calls without a model literal assume the folder's
+ * default model.
+ */
+export class CostCodeLensProvider implements vscode.CodeLensProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+    constructor(
+        private readonly pricing: PricingCatalog,
+        private readonly defaultModelFor: (uri: vscode.Uri) => string
+    ) {}
+
+    refresh() {
+        this.changeEmitter.fire();
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        if (!vscode.workspace.getConfiguration('costKatana.codeLens', document.uri).get<boolean>('enabled', true)) {
+            return [];
+        }
+
+        return findLlmCallSites(document).map(site => {
+            const model = site.model || this.defaultModelFor(document.uri);
+            const inputTokens = site.promptText ? countTokens(site.promptText, model) : TYPICAL_REQUEST.inputTokens;
+            const outputTokens = site.maxOutputTokens ?? TYPICAL_REQUEST.outputTokens;
+            const estimate = this.pricing.estimateCost(model, { inputTokens, outputTokens }, document.uri);
+
+            const modelLabel = site.model ? model : `${model} assumed`;
+            const title = estimate
+                ? `≈ ${formatCost(estimate.totalCost)}/call (${modelLabel}, ~${formatTokens(inputTokens)} in / ${formatTokens(outputTokens)} out)`
+                : `Cost Katana: no pricing for "${model}"`;
+            const args: CallSiteRecommendation = { model, inputTokens, outputTokens, uri: document.uri, modelRange: site.modelRange };
+
+            return new vscode.CodeLens(new vscode.Range(site.range.start, site.range.start), {
+                title,
+                tooltip: site.promptText
+                    ? 'Estimated from the inline prompt and local model pricing. Click for model recommendations.'
+                    : 'No inline prompt found, so a typical request size is assumed. Click for model recommendations.',
+                command: 'cost-katana.get-model-recommendations',
+                arguments: [args]
+            });
+        });
+    }
+}
+
+function formatTokens(tokens: number): string {
+    return tokens >= 1000 ? `${(tokens / 1000).toFixed(1).replace(/\.0$/, '')}k` : String(tokens);
+}
@@ -0,0 +1,213 @@
+import { UsageLedger } from './usageLedger';
+
+export interface PeriodForecast {
+    // e.g. "June 2025" or "Q2 2025"
+    label: string;
+    // Spend tracked so far in the period
+    actual: number;
+    projected: number;
+    // Confidence band around the projection
+    low: number;
+    high: number;
+}
+
+export interface ForecastPoint {
+    // Local date, e.g. "2025-06-14"
+    date: string;
+    // Cumulative spend since the start of the month
+    expected: number;
+    low: number;
+    high: number;
+    projected: boolean;
+}
+
+export interface SpendForecast {
+    month: PeriodForecast;
+    quarter: PeriodForecast;
+    // Every day of the month: tracked totals up to today, projections after
+    path: ForecastPoint[];
+    recentDays: Array<{ date: string; cost: number }>;
+    weekdayAverage: number;
+    weekendAverage: number;
+    // Complete days the projection was fitted on
+    observedDays: number;
+    // Month-to-date spend the backend recorded beyond this machine's ledger
+    untracked: number;
+    // Share of outcomes expected to fall within each band
+    confidence: number;
+    // Monthly budget in USD, when known
+    budget?: number;
+}
+
+export interface ForecastOptions {
+    budget?: number;
+    projectId?: string;
+    // Month-to-date spend reported by the backend, which includes other machines
+    monthToDate?: number;
+}
+
+interface DayStats {
+    mean: number;
+    variance: number;
+    samples: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Eight full weeks, so weekdays and weekends are equally represented
+const HISTORY_DAYS = 56;
+const MIN_OBSERVED_DAYS = 7;
+const RECENT_DAYS = 14;
+const CONFIDENCE = 0.8;
+// Two-sided z-score for the confidence above
+const Z_SCORE = 1.2816;
+
+/**
+ * Projects spend to the end of the month and the quarter from daily totals
+ * in the usage ledger, starting from the backend's month-to-date when it is
+ * higher. Weekdays and weekends are fitted separately, and the band covers
+ * both day-to-day variation and the uncertainty of the fitted averages.
+ * Returns undefined until a week of usage has been tracked.
+ */
+export async function forecastSpend(ledger: UsageLedger, options: ForecastOptions = {}, now = new Date()): Promise<SpendForecast | undefined> {
+    const today = startOfDay(now);
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+    const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+    const quarterStart = new Date(now.getFullYear(), now.getMonth() - now.getMonth() % 3, 1);
+    const quarterEnd = new Date(now.getFullYear(), quarterStart.getMonth() + 3, 1);
+    const historyStart = addDays(today, -HISTORY_DAYS);
+
+    const buckets = await ledger.aggregate('day', {
+        since: historyStart < quarterStart ? historyStart : quarterStart,
+        projectId: options.projectId
+    });
+    const totals = new Map(buckets.map(bucket => [bucket.key, bucket.cost]));
+    const costOn = (date: Date) => totals.get(dayKey(date)) || 0;
+
+    // Days before the first tracked one are unknown rather than free
+    const firstTracked = buckets.map(bucket => bucket.key).sort()[0];
+    if (!firstTracked) {
+        return undefined;
+    }
+    const fitStart = new Date(Math.max(historyStart.getTime(), parseDayKey(firstTracked).getTime()));
+    const weekdays: number[] = [];
+    const weekends: number[] = [];
+    for (let date = fitStart; date < today; date = addDays(date, 1)) {
+        (isWeekend(date) ? weekends : weekdays).push(costOn(date));
+    }
+    if (weekdays.length + weekends.length < MIN_OBSERVED_DAYS) {
+        return undefined;
+    }
+
+    // A day type seen less than twice borrows the overall average
+    const overall = describe([...weekdays, ...weekends]);
+    const weekdayStats = weekdays.length >= 2 ? describe(weekdays) : overall;
+    const weekendStats = weekends.length >= 2 ? describe(weekends) : overall;
+    // Only the rest of today is still to come
+    const remainingToday = 1 - (now.getTime() - today.getTime()) / DAY_MS;
+
+    // The backend does not break its total down by day, so the difference is counted today
+    let trackedThisMonth = 0;
+    for (let date = monthStart; date <= today; date = addDays(date, 1)) {
+        trackedThisMonth += costOn(date);
+    }
+    const untracked = Math.max((options.monthToDate ?? 0) - trackedThisMonth, 0);
+
+    // Every period projected includes the current month
+    const project = (start: Date, end: Date, label: string): PeriodForecast => {
+        let actual = untracked;
+        for (let date = start; date <= today; date = addDays(date, 1)) {
+            actual += costOn(date);
+        }
+
+        let weekdayShare = 0;
+        let weekendShare = 0;
+        for (let date = today; date < end; date = addDays(date, 1)) {
+            const share = date.getTime() === today.getTime() ? remainingToday : 1;
+            if (isWeekend(date)) {
+                weekendShare += share;
+            } else {
+                weekdayShare += share;
+            }
+        }
+
+        const expected = weekdayShare * weekdayStats.mean + weekendShare * weekendStats.mean;
+        // Daily variation is independent between days; an error in a fitted average repeats on every day of its type
+        const variance = weekdayShare * weekdayStats.variance + weekendShare * weekendStats.variance
+            + weekdayShare ** 2 * weekdayStats.variance / weekdayStats.samples
+            + weekendShare ** 2 * weekendStats.variance / weekendStats.samples;
+        const margin = Z_SCORE * Math.sqrt(variance);
+
+        return {
+            label,
+            actual,
+            projected: actual + expected,
+            low: actual + Math.max(expected - margin, 0),
+            high: actual + expected + margin
+        };
+    };
+
+    const path: ForecastPoint[] = [];
+    let cumulative = 0;
+    for (let date = monthStart; date < monthEnd; date = addDays(date, 1)) {
+        if (date <= today) {
+            cumulative += costOn(date) + (date.getTime() === today.getTime() ? untracked : 0);
+            path.push({ date: dayKey(date), expected: cumulative, low: cumulative, high: cumulative, projected: false });
+        } else {
+            const point = project(monthStart, addDays(date, 1), '');
+            path.push({ date: dayKey(date), expected: point.projected, low: point.low, high: point.high, projected: true });
+        }
+    }
+
+    const recentDays = [];
+    for (let date = addDays(today, 1 - RECENT_DAYS); date <= today; date = addDays(date, 1)) {
+        recentDays.push({ date: dayKey(date), cost: costOn(date) });
+    }
+
+    return {
+        month: project(monthStart, monthEnd, now.toLocaleString('default', { month: 'long', year: 'numeric' })),
+        quarter: project(quarterStart, quarterEnd, `Q${quarterStart.getMonth() / 3 + 1} ${quarterStart.getFullYear()}`),
+        path,
+        recentDays,
+        weekdayAverage: weekdayStats.mean,
+        weekendAverage: weekendStats.mean,
+        observedDays: weekdays.length + weekends.length,
+        untracked,
+        confidence: CONFIDENCE,
+        budget: options.budget
+    };
+}
+
+export function exceedsBudget(forecast: SpendForecast): boolean {
+    return forecast.budget !== undefined && forecast.budget > 0 && forecast.month.projected > forecast.budget;
+}
+
+function describe(samples: number[]): DayStats {
+    const mean = samples.reduce((sum, value) => sum + value, 0) / samples.length;
+    const variance = samples.length > 1
+        ? samples.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (samples.length - 1)
+        : 0;
+    return { mean, variance, samples: samples.length };
+}
+
+function isWeekend(date: Date): boolean {
+    return date.getDay() === 0 || date.getDay() === 6;
+}
+
+function startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Calendar arithmetic, so daylight saving changes do not shift the day
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+// Same format as the ledger's daily buckets
+function dayKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function parseDayKey(key: string): Date {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
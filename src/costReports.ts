@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import { BranchRange, Commit, GitContextProvider, shortCommit } from './gitContext';
+import { formatCost } from './pricing';
+import { LedgerEntry, OptimizationRecord, UsageLedger } from './usageLedger';
+
+export interface BranchTotal {
+    repository: string;
+    branch: string;
+    requests: number;
+    tokens: number;
+    cost: number;
+}
+
+const TOP_FILES_LIMIT = 10;
+
+/**
+ * Spend per repository and branch from the local ledger, highest first.
+ */
+export async function getBranchTotals(ledger: UsageLedger): Promise<BranchTotal[]> {
+    const totals = new Map<string, BranchTotal>();
+    for (const entry of await ledger.entries()) {
+        if (!entry.branch || !entry.repository) {
+            continue;
+        }
+        const key = `${entry.repository}\n${entry.branch}`;
+        const total = totals.get(key) || { repository: entry.repository, branch: entry.branch, requests: 0, tokens: 0, cost: 0 };
+        total.requests++;
+        total.tokens += entry.tokens;
+        total.cost += entry.cost;
+        totals.set(key, total);
+    }
+    return [...totals.values()].sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * Markdown report of spend per branch. When `focus` is given, its spend is
+ * also broken down per commit range: usage recorded while HEAD was at a
+ * commit is attributed to the range ending at the next commit.
+ */
+export async function buildBranchCostReport(
+    ledger: UsageLedger,
+    git: GitContextProvider,
+    focus?: { repository: string; branch: string }
+): Promise<string> {
+    const totals = await getBranchTotals(ledger);
+    const lines = [
+        '# Cost Katana Branch Cost Report',
+        '',
+        `Generated ${new Date().toLocaleString()} from usage tracked on this machine.`,
+        '',
+        '## Spend per Branch',
+        '',
+        '| Repository | Branch | Requests | Tokens | Cost |',
+        '|---|---|---:|---:|---:|',
+        ...totals.map(total => `| ${escapeCell(total.repository)} | ${escapeCell(total.branch)} | ${total.requests} | ${total.tokens} | ${formatCost(total.cost)} |`)
+    ];
+    if (totals.length === 0) {
+        lines.push('', '_No usage with Git information has been tracked yet._');
+    }
+
+    if (focus) {
+        const entries = await ledger.entries({ repository: focus.repository, branch: focus.branch });
+        const current = await git.resolve(vscode.window.activeTextEditor?.document.uri);
+        // Commit messages are only available for the checked-out branch
+        const commits = current?.repository === focus.repository && current.branch === focus.branch
+            ? await git.log(vscode.window.activeTextEditor?.document.uri, 500)
+            : [];
+
+        lines.push(
+            '',
+            `## Commit Ranges on \`${focus.branch}\``,
+            '',
+            '| Range | Resulting Commit | Requests | Tokens | Cost |',
+            '|---|---|---:|---:|---:|',
+            ...getCommitRanges(entries, commits).map(range =>
+                `| \`${range.label}\` | ${escapeCell(range.description)} | ${range.requests} | ${range.tokens} | ${formatCost(range.cost)} |`)
+        );
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Markdown summary of the AI spend that went into a branch, for pasting
+ * into a pull request. Covers usage recorded on the branch while HEAD was
+ * at the merge base or one of the branch's own commits.
+ */
+export async function buildPullRequestSummary(ledger: UsageLedger, range: BranchRange): Promise<string> {
+    const { context, baseRef, mergeBase, commits } = range;
+    const inRange = new Set([mergeBase, ...commits.map(commit => commit.hash)]);
+    const belongs = (record: { commit?: string }) => !record.commit || inRange.has(record.commit);
+    const query = { repository: context.repository, branch: context.branch };
+
+    const entries = (await ledger.entries(query)).filter(belongs);
+    const optimizations = (await ledger.optimizations(query)).filter(belongs);
+
+    const totalCost = sum(entries, entry => entry.cost);
+    const estimated = entries.some(entry => entry.costEstimated);
+    const lines = [
+        '## 🤖 AI Cost Summary',
+        '',
+        `\`${context.branch}\` compared with \`${baseRef}\` (merge base \`${shortCommit(mergeBase)}\`, ${commits.length} commit${commits.length === 1 ? '' : 's'})`,
+        '',
+        '| | |',
+        '|---|---:|',
+        `| Total cost | ${estimated ? '≈ ' : ''}${formatCost(totalCost)} |`,
+        `| Requests | ${entries.length} |`,
+        `| Input tokens | ${sum(entries, entry => entry.inputTokens).toLocaleString()} |`,
+        `| Output tokens | ${sum(entries, entry => entry.outputTokens).toLocaleString()} |`,
+        `| Total tokens | ${sum(entries, entry => entry.tokens).toLocaleString()} |`
+    ];
+
+    if (entries.length === 0) {
+        lines.push('', '_No AI usage was tracked for this branch on this machine._');
+    } else {
+        lines.push(
+            '',
+            '### Models',
+            '',
+            '| Model | Requests | Tokens | Cost | Share |',
+            '|---|---:|---:|---:|---:|',
+            ...groupBy(entries, entry => entry.model).map(group =>
+                `| ${escapeCell(group.key)} | ${group.entries.length} | ${sum(group.entries, e => e.tokens).toLocaleString()} | ${formatCost(group.cost)} | ${share(group.cost, totalCost)} |`),
+            '',
+            '### Top Files by Spend',
+            '',
+            '| File | Requests | Cost |',
+            '|---|---:|---:|',
+            ...groupBy(entries, entry => entry.filePath ? vscode.workspace.asRelativePath(entry.filePath) : '(no file)')
+                .slice(0, TOP_FILES_LIMIT)
+                .map(group => `| \`${escapeCell(group.key)}\` | ${group.entries.length} | ${formatCost(group.cost)} |`)
+        );
+    }
+
+    lines.push('', '### Prompt Optimizations', '');
+    if (optimizations.length === 0) {
+        lines.push('_No prompt optimizations were applied._');
+    } else {
+        lines.push(
+            `${optimizations.length} optimization${optimizations.length === 1 ? '' : 's'} applied, saving ` +
+                `${sum(optimizations, o => o.originalTokens - o.optimizedTokens).toLocaleString()} tokens and ` +
+                `${formatCost(sum(optimizations, o => o.savings))} per call in total.`,
+            '',
+            '| File | Tokens | Saved per Call |',
+            '|---|---:|---:|',
+            ...optimizations.map(record => `| ${describeFile(record)} | ${record.originalTokens} → ${record.optimizedTokens} | ${formatCost(record.savings)} |`)
+        );
+    }
+
+    lines.push('', `<sub>Generated by Cost Katana from usage tracked locally${estimated ? '; ≈ marks costs estimated from local model pricing' : ''}.</sub>`);
+    return lines.join('\n');
+}
+
+interface CommitRange {
+    label: string;
+    description: string;
+    requests: number;
+    tokens: number;
+    cost: number;
+    // Position in history, newest first; unknown commits sort last
+    order: number;
+}
+
+function getCommitRanges(entries: LedgerEntry[], commits: Commit[]): CommitRange[] {
+    const positions = new Map(commits.map((commit, index) => [commit.hash, index]));
+    const ranges = new Map<string, CommitRange>();
+
+    for (const entry of entries) {
+        const base = entry.commit || '';
+        let range = ranges.get(base);
+        if (!range) {
+            const position = positions.get(base);
+            // log() is newest first, so the commit made on top of `base` is the one before it
+            const next = position !== undefined && position > 0 ? commits[position - 1] : undefined;
+            range = {
+                label: `${shortCommit(base)}..${next ? shortCommit(next.hash) : position === 0 ? 'working tree' : '?'}`,
+                description: next ? next.message.split('\n')[0] : position === 0 ? 'Uncommitted changes' : '',
+                requests: 0,
+                tokens: 0,
+                cost: 0,
+                order: position ?? Number.MAX_SAFE_INTEGER
+            };
+            ranges.set(base, range);
+        }
+        range.requests++;
+        range.tokens += entry.tokens;
+        range.cost += entry.cost;
+    }
+
+    return [...ranges.values()].sort((a, b) => a.order - b.order);
+}
+
+function groupBy(entries: LedgerEntry[], key: (entry: LedgerEntry) => string): Array<{ key: string; entries: LedgerEntry[]; cost: number }> {
+    const groups = new Map<string, LedgerEntry[]>();
+    for (const entry of entries) {
+        const name = key(entry);
+        groups.set(name, [...(groups.get(name) || []), entry]);
+    }
+    return [...groups.entries()]
+        .map(([name, group]) => ({ key: name, entries: group, cost: sum(group, entry => entry.cost) }))
+        .sort((a, b) => b.cost - a.cost);
+}
+
+function sum<T>(items: T[], value: (item: T) => number): number {
+    return items.reduce((total, item) => total + (value(item) || 0), 0);
+}
+
+function share(part: number, total: number): string {
+    return total > 0 ? `${Math.round((part / total) * 100)}%` : '—';
+}
+
+function describeFile(record: OptimizationRecord): string {
+    return record.filePath ? `\`${escapeCell(vscode.workspace.asRelativePath(record.filePath))}\`` : '(no file)';
+}
+
+function escapeCell(value: string): string {
+    return value.replace(/\|/g, '\\|');
+}
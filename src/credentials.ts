@@ -0,0 +1,65 @@
+import * as vscode from 'vscode';
+
+const API_KEY_SECRET = 'costKatana.apiKey';
+
+/**
+ * Keeps the Cost Katana API key in the OS keychain via SecretStorage so it
+ * never lands in settings.json or settings sync.
+ */
+export class CredentialStore {
+    constructor(private readonly secrets: vscode.SecretStorage) {}
+
+    get onDidChange(): vscode.Event<vscode.SecretStorageChangeEvent> {
+        return this.secrets.onDidChange;
+    }
+
+    async getApiKey(): Promise<string | undefined> {
+        return (await this.secrets.get(API_KEY_SECRET)) || undefined;
+    }
+
+    async setApiKey(apiKey: string): Promise<void> {
+        await this.secrets.store(API_KEY_SECRET, apiKey);
+    }
+
+    async deleteApiKey(): Promise<void> {
+        await this.secrets.delete(API_KEY_SECRET);
+    }
+
+    // One-time move of a plaintext `costKatana.apiKey` setting into SecretStorage
+    async migrateFromSettings(): Promise<boolean> {
+        const config = vscode.workspace.getConfiguration('costKatana');
+        const inspected = config.inspect<string>('apiKey');
+        if (!inspected) {
+            return false;
+        }
+
+        const legacyKey = inspected.workspaceFolderValue || inspected.workspaceValue || inspected.globalValue;
+        if (!legacyKey) {
+            return false;
+        }
+
+        console.log('🔐 Migrating API key from settings to secret storage');
+        if (!(await this.getApiKey())) {
+            await this.setApiKey(legacyKey);
+        }
+
+        // Scrub every scope the key was written to
+        const targets: Array<[string | undefined, vscode.ConfigurationTarget]> = [
+            [inspected.globalValue, vscode.ConfigurationTarget.Global],
+            [inspected.workspaceValue, vscode.ConfigurationTarget.Workspace],
+            [inspected.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder]
+        ];
+        for (const [value, target] of targets) {
+            if (value !== undefined) {
+                try {
+                    await config.update('apiKey', undefined, target);
+                } catch (error) {
+                    console.error('❌ Failed to remove API key from settings:', error);
+                }
+            }
+        }
+
+        console.log('✅ API key migrated to secret storage');
+        return true;
+    }
+}
@@ -1,23 +1,250 @@
 import * as vscode from 'vscode';
-import { CostKatanaAPI } from './api';
-
-export function activate(context: vscode.ExtensionContext) {
+import { AnalyticsData, APIResponse, CostKatanaAPI, PromptOptimization, Suggestion } from './api';
+import { MagicLinkAuthHandler, SignInCancelledError } from './authFlow';
+import { BudgetAlertManager, budgetFromSummary, parseBudgetPercent } from './budgetAlerts';
+import { buildBranchCostReport, buildPullRequestSummary, getBranchTotals } from './costReports';
+import { CallSiteRecommendation, CODE_LENS_SELECTOR, CostCodeLensProvider } from './costCodeLens';
+import { exceedsBudget, forecastSpend, PeriodForecast, SpendForecast } from './costForecast';
+import { CredentialStore } from './credentials';
+import { GitContextProvider } from './gitContext';
+import { compareModels, ModelComparison, priceComparison } from './modelComparison';
+import { allowModel, MODEL_DIAGNOSTICS_SELECTOR, ModelCostDiagnostics } from './modelDiagnostics';
+import { recommendModels } from './modelRecommender';
+import { OptimizationReview } from './optimizationReview';
+import { formatCost, PricingCatalog, TYPICAL_REQUEST } from './pricing';
+import { BoundProject, pickWorkspaceFolder, ProjectBindings, resolveWorkspaceFolder } from './projectBinding';
+import { PROJECT_CONFIG_FILE, ProjectConfigService } from './projectConfig';
+import { combineOptimizations, compressPrompt, OptimizationEngine } from './promptCompressor';
+import { describePrompt, PromptCollection, PromptCompletionProvider, PromptLibrary, toSnippet, WORKSPACE_LIBRARY_FILE } from './promptLibrary';
+import { PromptLinter } from './promptLinter';
+import { ActivityItem, ActivityTreeProvider, ProjectItem, ProjectsTreeProvider, SuggestionItem, SuggestionsTreeProvider } from './sidebar';
+import { SpendStatusBar } from './statusBar';
+import { countTokens } from './tokenizer';
+import { LedgerBucket, LedgerGroupBy, UsageLedger } from './usageLedger';
+import { UsageQueue } from './usageQueue';
+import { escapeHtml, onWebviewMessage, postToWebview, WebviewPage, WebviewRenderer } from './webview';
+import { inspectWorkspace } from './workspaceInspector';
+
+// How long to wait for the browser to hand credentials back after a magic link is sent
+const SIGN_IN_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Model assumed when the actual model behind an interaction is unknown
+const DEFAULT_MODEL = 'gpt-4o';
+
+export async function activate(context: vscode.ExtensionContext) {
     console.log('🚀 Cost Katana AI Optimizer extension is now active!');
     console.log('Extension context:', context.extensionPath);
     console.log('VS Code version:', vscode.version);
 
     try {
-        const api = new CostKatanaAPI();
+        const credentials = new CredentialStore(context.secrets);
+        try {
+            await credentials.migrateFromSettings();
+        } catch (error) {
+            console.error('❌ API key migration failed:', error);
+        }
+
+        const api = new CostKatanaAPI(credentials);
         console.log('✅ API instance created successfully');
 
+        // Local model prices used for every offline estimate
+        const pricing = new PricingCatalog(context.globalState, async () => {
+            const result = await api.getPricingCatalog();
+            return result.success ? result.data?.catalog : undefined;
+        });
+        api.hasApiKey().then(signedIn => {
+            if (signedIn) {
+                pricing.refresh().catch(error => console.error('❌ Pricing refresh failed:', error));
+            }
+        });
+
+        // Repository, branch and commit attached to tracked usage
+        const gitContext = new GitContextProvider();
+
+        // Local history of everything tracked from this machine
+        const ledger = new UsageLedger({ global: context.globalStorageUri, workspace: context.storageUri }, pricing);
+
+        // Failed tracking events are persisted here and replayed on reconnect
+        const usageQueue = new UsageQueue(context.globalState, api, ledger);
+        context.subscriptions.push(usageQueue);
+
+        // Which backend project each workspace folder reports usage to
+        const projectBindings = new ProjectBindings(context.workspaceState);
+        context.subscriptions.push(projectBindings);
+
+        // Committed .costkatana.json files take precedence over local bindings
+        const projectConfigs = new ProjectConfigService(projectBindings);
+        context.subscriptions.push(projectConfigs);
+        projectConfigs.loadAll().catch(error => console.error('❌ Loading project files failed:', error));
+
+        // Project and folder attribution for usage coming from `uri`
+        const usageAttribution = (uri: vscode.Uri | undefined) => {
+            const project = projectConfigs.resolve(uri);
+            return {
+                projectId: project.projectId,
+                workspace: project.folder && {
+                    name: project.folder.name,
+                    path: project.folder.uri.fsPath,
+                    tags: project.tags.length > 0 ? project.tags : undefined
+                }
+            };
+        };
+        const defaultModelFor = (uri: vscode.Uri | undefined) => projectConfigs.resolve(uri).defaultModel
+            || vscode.workspace.getConfiguration('costKatana', uri).get<string>('defaultModel')
+            || DEFAULT_MODEL;
+
+        // The nearest .costkatana.json wins over settings, so the default is written where it will apply
+        const setDefaultModel = async (model: string, uri: vscode.Uri | undefined) => {
+            const project = projectConfigs.resolve(uri);
+            if (project.configUri) {
+                const file = await projectConfigs.writeDefaultModel(project.configUri, model);
+                vscode.window.showInformationMessage(`Default model set to ${model} in ${vscode.workspace.asRelativePath(file)}`);
+                return;
+            }
+            const target = vscode.workspace.workspaceFolders?.length
+                ? vscode.ConfigurationTarget.Workspace
+                : vscode.ConfigurationTarget.Global;
+            await vscode.workspace.getConfiguration('costKatana', uri).update('defaultModel', model, target);
+            vscode.window.showInformationMessage(`Default model set to ${model} for tracking and cost estimates`);
+        };
+
+        // Per-call cost estimates above LLM SDK calls
+        const costCodeLens = new CostCodeLensProvider(pricing, defaultModelFor);
+        context.subscriptions.push(
+            vscode.languages.registerCodeLensProvider(CODE_LENS_SELECTOR, costCodeLens),
+            pricing.onDidChange(() => costCodeLens.refresh()),
+            projectConfigs.onDidChange(() => costCodeLens.refresh()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('costKatana.codeLens')
+                    || event.affectsConfiguration('costKatana.pricingOverrides')
+                    || event.affectsConfiguration('costKatana.defaultModel')) {
+                    costCodeLens.refresh();
+                }
+            })
+        );
+
+        // Diagnostics on hard-coded models with a cheaper same-tier alternative
+        const modelDiagnostics = new ModelCostDiagnostics(pricing);
+        context.subscriptions.push(
+            modelDiagnostics,
+            vscode.languages.registerCodeActionsProvider(MODEL_DIAGNOSTICS_SELECTOR, modelDiagnostics, {
+                providedCodeActionKinds: ModelCostDiagnostics.providedCodeActionKinds
+            })
+        );
+
+        // Optimization results open in the diff editor for review
+        const optimizationReview = new OptimizationReview();
+        context.subscriptions.push(optimizationReview);
+
+        // Saved prompts, inserted with `prompt:<name>` completions or a quick pick
+        const promptLibrary = new PromptLibrary(context.globalStorageUri, context.globalState);
+        context.subscriptions.push(
+            promptLibrary,
+            vscode.languages.registerCompletionItemProvider(
+                [{ scheme: 'file' }, { scheme: 'untitled' }],
+                new PromptCompletionProvider(promptLibrary),
+                ...PromptCompletionProvider.triggerCharacters
+            )
+        );
+
+        // Token waste diagnostics in prompt files, checked on save
+        const promptLinter = new PromptLinter(defaultModelFor);
+        context.subscriptions.push(
+            promptLinter,
+            vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, promptLinter, {
+                providedCodeActionKinds: PromptLinter.providedCodeActionKinds
+            })
+        );
+
+        // Panels are rendered through this, with a fresh CSP nonce each time
+        const webviews = new WebviewRenderer(context.extensionUri);
+
+        // Sidebar views
+        const activityProvider = new ActivityTreeProvider();
+        const projectsProvider = new ProjectsTreeProvider(api, projectConfigs);
+        const suggestionsProvider = new SuggestionsTreeProvider();
+        context.subscriptions.push(
+            projectsProvider,
+            vscode.window.createTreeView('costKatana.activity', { treeDataProvider: activityProvider }),
+            vscode.window.createTreeView('costKatana.projects', { treeDataProvider: projectsProvider }),
+            vscode.window.createTreeView('costKatana.suggestions', { treeDataProvider: suggestionsProvider })
+        );
+
+        // Month-to-date spend meter and budget threshold alerts
+        const statusBar = new SpendStatusBar();
+        context.subscriptions.push(statusBar);
+        const budgetAlerts = new BudgetAlertManager(context.globalState);
+
+        // Month-end projection for the active project from the ledger, against the budget last reported by the backend
+        let accountSpend: { budget?: number; monthToDate?: number } = {};
+        let forecastCache: { key: string; forecast: SpendForecast | undefined } | undefined;
+        const refreshForecast = async () => {
+            try {
+                const project = projectConfigs.resolve(vscode.window.activeTextEditor?.document.uri);
+                // The polled totals are account-wide, so they only apply to an unscoped projection
+                const options = project.projectId
+                    ? { projectId: project.projectId, budget: project.budget }
+                    : { budget: project.budget ?? accountSpend.budget, monthToDate: accountSpend.monthToDate };
+                // The part of today still to project shrinks as the day goes on, so the cache lasts at most an hour
+                const now = new Date();
+                const key = JSON.stringify([now.toDateString(), now.getHours(), await ledger.revision(), options]);
+                if (forecastCache?.key !== key) {
+                    forecastCache = { key, forecast: await forecastSpend(ledger, options) };
+                }
+                statusBar.setForecast(forecastCache.forecast);
+                await budgetAlerts.evaluateForecast(forecastCache.forecast);
+            } catch (error) {
+                console.error('❌ Spend forecast failed:', error);
+            }
+        };
+
+        const applySpend = (result: APIResponse<AnalyticsData>) => {
+            if (result.success && result.data) {
+                statusBar.update(result.data);
+                activityProvider.setRemoteActivity(result.data.cursor_specific?.recent_activity);
+                budgetAlerts.evaluate(parseBudgetPercent(result.data.summary.budget_used))
+                    .catch(error => console.error('❌ Budget alert evaluation failed:', error));
+                accountSpend = {
+                    budget: budgetFromSummary(result.data.summary),
+                    monthToDate: parseFloat(result.data.summary.total_spending_this_month) || undefined
+                };
+                refreshForecast();
+            } else if (result.offline) {
+                ledger.toAnalytics()
+                    .then(local => statusBar.showOffline(local))
+                    .catch(() => statusBar.showOffline());
+                refreshForecast();
+            }
+        };
+
+        const refreshSpend = async () => {
+            if (!(await api.hasApiKey())) {
+                statusBar.showSignedOut();
+                return;
+            }
+            applySpend(await api.getAnalytics());
+        };
+
+        context.subscriptions.push(credentials.onDidChange(() => {
+            refreshSpend().catch(error => console.error('❌ Spend refresh failed:', error));
+            projectsProvider.refresh();
+        }));
+        refreshSpend().catch(error => console.error('❌ Spend refresh failed:', error));
+
+        // Receives credentials from the browser once the magic link is confirmed
+        const authHandler = new MagicLinkAuthHandler();
+        context.subscriptions.push(vscode.window.registerUriHandler(authHandler));
+
         // ===== AUTOMATIC USAGE TRACKING =====
         let automaticTrackingEnabled = true;
         let lastTrackedRequest: string | null = null;
 
         // Monitor for AI interactions in Cursor
-        const trackAIInteraction = async (prompt: string, response: string, model: string = 'gpt-4o') => {
+        const trackAIInteraction = async (prompt: string, response: string, model?: string) => {
+            const uri = vscode.window.activeTextEditor?.document.uri;
+            model = model || defaultModelFor(uri);
             console.log('🔄 Automatic tracking attempt:', { prompt: prompt.substring(0, 50), model });
-            if (!automaticTrackingEnabled || !api.hasApiKey) {
+            if (!automaticTrackingEnabled || !(await api.hasApiKey())) {
                 console.log('❌ Automatic tracking disabled or no API key');
                 return;
             }
@@ -32,19 +259,37 @@ export function activate(context: vscode.ExtensionContext) {
 
             try {
                 console.log('📡 Making automatic tracking API call');
-                const result = await api.trackUsage({
+                const { result, queued } = await usageQueue.track({
                     prompt,
                     response,
                     model,
                     codeContext: {
                         file_path: vscode.window.activeTextEditor?.document.fileName,
-                        language: vscode.window.activeTextEditor?.document.languageId
-                    }
+                        language: vscode.window.activeTextEditor?.document.languageId,
+                        git: await gitContext.resolve(uri)
+                    },
+                    ...usageAttribution(uri)
                 });
 
                 console.log('📡 Automatic tracking result:', result);
 
+                if (queued) {
+                    console.log('📦 Backend unreachable, automatic tracking queued');
+                    return;
+                }
+
                 if (result.success && result.data) {
+                    refreshSpend();
+                    activityProvider.addInteraction({
+                        model,
+                        tokens: result.data.tokens,
+                        cost: result.data.cost,
+                        timestamp: new Date().toISOString(),
+                        usage_id: result.data.usage_id,
+                        prompt,
+                        filePath: vscode.window.activeTextEditor?.document.fileName
+                    });
+
                     // Show subtle notification for automatic tracking
                     vscode.window.showInformationMessage(
                         `🤖 Tracked: $${result.data.cost} (${result.data.tokens} tokens)`,
@@ -68,6 +313,15 @@ export function activate(context: vscode.ExtensionContext) {
             }
         };
 
+        // Explicit Cursor AI commands honour the budget hard-warning mode
+        const trackCursorInteraction = async (prompt: string, response: string, model: string) => {
+            if (!(await budgetAlerts.confirmTracking())) {
+                console.log('❌ Tracking skipped, budget exhausted and not confirmed');
+                return;
+            }
+            await trackAIInteraction(prompt, response, model);
+        };
+
         // Monitor document changes for potential AI interactions
         const documentChangeListener = vscode.workspace.onDidChangeTextDocument(async (event) => {
             if (!automaticTrackingEnabled) return;
@@ -83,8 +337,7 @@ export function activate(context: vscode.ExtensionContext) {
                     // We'll track it as a potential AI interaction
                     await trackAIInteraction(
                         'AI-generated content detected',
-                        change.text,
-                        'gpt-4o'
+                        change.text
                     );
                 }
             }
@@ -93,7 +346,7 @@ export function activate(context: vscode.ExtensionContext) {
         // Monitor for Cursor AI commands and auto mode
         const cursorAIListener = vscode.commands.registerCommand('cursor.ai', async () => {
             console.log('🤖 Cursor AI command detected');
-            await trackAIInteraction(
+            await trackCursorInteraction(
                 'Cursor AI interaction',
                 'AI response generated',
                 'cursor-small'
@@ -103,7 +356,7 @@ export function activate(context: vscode.ExtensionContext) {
         // Monitor Cursor's auto mode
         const cursorAutoModeListener = vscode.commands.registerCommand('cursor.autoComplete', async () => {
             console.log('🤖 Cursor auto mode detected');
-            await trackAIInteraction(
+            await trackCursorInteraction(
                 'Cursor auto mode',
                 'Auto-completion generated',
                 'cursor-auto'
@@ -113,7 +366,7 @@ export function activate(context: vscode.ExtensionContext) {
         // Monitor Cursor's inline suggestions
         const cursorInlineSuggestionsListener = vscode.commands.registerCommand('cursor.inlineSuggest', async () => {
             console.log('🤖 Cursor inline suggestion detected');
-            await trackAIInteraction(
+            await trackCursorInteraction(
                 'Cursor inline suggestion',
                 'Inline suggestion generated',
                 'cursor-inline'
@@ -123,7 +376,7 @@ export function activate(context: vscode.ExtensionContext) {
         // Monitor Cursor's chat interactions
         const cursorChatListener = vscode.commands.registerCommand('cursor.chat', async () => {
             console.log('🤖 Cursor chat detected');
-            await trackAIInteraction(
+            await trackCursorInteraction(
                 'Cursor chat interaction',
                 'Chat response generated',
                 'cursor-chat'
@@ -133,7 +386,7 @@ export function activate(context: vscode.ExtensionContext) {
         // Monitor Cursor's explain code feature
         const cursorExplainListener = vscode.commands.registerCommand('cursor.explain', async () => {
             console.log('🤖 Cursor explain code detected');
-            await trackAIInteraction(
+            await trackCursorInteraction(
                 'Cursor explain code',
                 'Code explanation generated',
                 'cursor-explain'
@@ -159,11 +412,13 @@ export function activate(context: vscode.ExtensionContext) {
 
                 console.log('📧 Email provided:', email);
 
+                const state = authHandler.beginSignIn();
                 try {
                     vscode.window.showInformationMessage('Generating magic link...');
                     console.log('📡 Making API call to generate magic link');
                     
-                    const response = await api.generateMagicLink(email);
+                    const redirectUri = await authHandler.getRedirectUri();
+                    const response = await api.generateMagicLink(email, { state, redirectUri });
                     console.log('📡 Magic link response:', response);
                     
                     if (response.success && response.data) {
@@ -177,19 +432,64 @@ export function activate(context: vscode.ExtensionContext) {
                             vscode.window.showWarningMessage('Magic link generated, but URL validation failed. The link might not work properly.');
                         }
                         
-                        vscode.window.showInformationMessage('Magic link generated! Opening in browser...');
                         console.log('🌐 Opening magic link in browser');
                         vscode.env.openExternal(vscode.Uri.parse(magicLinkUrl));
                         
                         // Store email for later use
                         await vscode.workspace.getConfiguration('costKatana').update('userEmail', email, true);
                         console.log('✅ Email stored in configuration');
+
+                        // Resolves with the failure, so its prompt is shown after the progress notification closes
+                        const failure = await vscode.window.withProgress({
+                            location: vscode.ProgressLocation.Notification,
+                            title: 'Waiting for magic link confirmation',
+                            cancellable: true
+                        }, async (progress, token): Promise<Error | undefined> => {
+                            progress.report({ message: `Confirm the link sent to ${email} in your browser...` });
+                            try {
+                                const credentials = await authHandler.waitForCallback(state, token, SIGN_IN_TIMEOUT_MS);
+                                await api.updateApiKey(credentials.apiKey);
+                                api.updateUserId(credentials.userId);
+
+                                const connectedEmail = credentials.email || email;
+                                if (connectedEmail !== email) {
+                                    await vscode.workspace.getConfiguration('costKatana').update('userEmail', connectedEmail, true);
+                                }
+
+                                console.log('✅ Sign-in completed via URI callback');
+                                vscode.window.showInformationMessage(`✅ Connected as ${connectedEmail}`);
+                                return undefined;
+                            } catch (error) {
+                                if (error instanceof SignInCancelledError) {
+                                    console.log('❌ Sign-in cancelled:', error.message);
+                                    return undefined;
+                                }
+
+                                console.error('❌ Sign-in did not complete:', error);
+                                return error instanceof Error ? error : new Error('Unknown error');
+                            }
+                        });
+
+                        if (failure) {
+                            const action = await vscode.window.showWarningMessage(
+                                `Sign-in did not complete: ${failure.message}`,
+                                'Try Again',
+                                'Configure Manually'
+                            );
+                            if (action === 'Try Again') {
+                                vscode.commands.executeCommand('cost-katana.connect-account');
+                            } else if (action === 'Configure Manually') {
+                                vscode.commands.executeCommand('cost-katana.configure');
+                            }
+                        }
                     } else {
                         console.error('❌ Magic link generation failed:', response.error);
+                        authHandler.cancelSignIn(state);
                         vscode.window.showErrorMessage(`Failed to generate magic link: ${response.error}`);
                     }
                 } catch (error) {
                     console.error('❌ Exception in magic link generation:', error);
+                    authHandler.cancelSignIn(state);
                     vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
                 }
             } catch (error) {
@@ -204,7 +504,7 @@ export function activate(context: vscode.ExtensionContext) {
                 console.log('Track usage command started');
                 
                 // Check if API key is configured
-                if (!api.hasApiKey) {
+                if (!(await api.hasApiKey())) {
                     console.log('No API key configured');
                     const action = await vscode.window.showErrorMessage(
                         'API key not configured. Please connect your account first.',
@@ -222,7 +522,7 @@ export function activate(context: vscode.ExtensionContext) {
                         });
                         
                         if (apiKey) {
-                            api.updateApiKey(apiKey);
+                            await api.updateApiKey(apiKey);
                             vscode.window.showInformationMessage('API key configured successfully!');
                         } else {
                             return;
@@ -239,6 +539,10 @@ export function activate(context: vscode.ExtensionContext) {
                     return;
                 }
 
+                if (!(await budgetAlerts.confirmTracking())) {
+                    return;
+                }
+
                 console.log('Getting prompt from user');
                 const prompt = await vscode.window.showInputBox({
                     prompt: 'Enter the AI prompt you used',
@@ -262,47 +566,11 @@ export function activate(context: vscode.ExtensionContext) {
                 }
 
                 console.log('Getting model selection from user');
-                const model = await vscode.window.showQuickPick([
-                    // OpenAI Models
-                    'gpt-4o',
-                    'gpt-4o-mini',
-                    'gpt-4.1',
-                    'gpt-4.5-preview',
-                    'gpt-3.5-turbo',
-                    // Anthropic Models
-                    'claude-3.5-sonnet',
-                    'claude-3.5-haiku',
-                    'claude-3.7-sonnet',
-                    'claude-4-opus',
-                    'claude-4-sonnet',
-                    'claude-3-opus',
-                    'claude-3-sonnet',
-                    'claude-3-haiku',
-                    // Google Models
-                    'gemini-2.0-pro',
-                    'gemini-2.5-flash',
-                    'gemini-2.5-pro',
-                    // Deepseek Models
-                    'deepseek-r1',
-                    'deepseek-r1-05-28',
-                    'deepseek-v3',
-                    'deepseek-v3.1',
-                    // Grok Models
-                    'grok-2',
-                    'grok-3-beta',
-                    'grok-3-mini',
-                    'grok-4',
-                    // Anthropic o1/o3 Models
-                    'o1',
-                    'o1-mini',
-                    'o3',
-                    'o3-mini',
-                    'o4-mini',
-                    // Cursor Models
-                    'cursor-small'
-                ], {
-                    placeHolder: 'Select the AI model used'
+                const modelItem = await vscode.window.showQuickPick(pricing.toQuickPickItems(), {
+                    placeHolder: 'Select the AI model used',
+                    matchOnDescription: true
                 });
+                const model = modelItem?.label;
 
                 if (!model) {
                     console.log('No model selected');
@@ -321,21 +589,43 @@ export function activate(context: vscode.ExtensionContext) {
                         progress.report({ increment: 25 });
                         console.log('Making API call to track usage');
                         
-                        const result = await api.trackUsage({
+                        const { result, queued } = await usageQueue.track({
                             prompt,
                             response,
                             model,
                             codeContext: {
                                 file_path: editor.document.fileName,
-                                language: editor.document.languageId
-                            }
+                                language: editor.document.languageId,
+                                git: await gitContext.resolve(editor.document.uri)
+                            },
+                            ...usageAttribution(editor.document.uri)
                         });
 
                         progress.report({ increment: 75 });
                         console.log('API call completed, result:', result);
 
-                        if (result.success && result.data) {
+                        if (queued) {
+                            progress.report({ increment: 100 });
+                            const estimate = pricing.estimateCost(model, {
+                                inputTokens: countTokens(prompt, model),
+                                outputTokens: countTokens(response, model)
+                            }, editor.document.uri);
+                            vscode.window.showWarningMessage(
+                                `📦 Backend unreachable. Usage saved offline (${usageQueue.getStatus().pending} pending) and will be sent once the connection is restored.` +
+                                (estimate ? `\n💰 Estimated cost: ${formatCost(estimate.totalCost)}` : '')
+                            );
+                        } else if (result.success && result.data) {
                             progress.report({ increment: 100 });
+                            refreshSpend();
+                            activityProvider.addInteraction({
+                                model,
+                                tokens: result.data.tokens,
+                                cost: result.data.cost,
+                                timestamp: new Date().toISOString(),
+                                usage_id: result.data.usage_id,
+                                prompt,
+                                filePath: editor.document.fileName
+                            });
                             vscode.window.showInformationMessage(
                                 `✅ Usage tracked successfully!\n💰 Cost: $${result.data.cost}\n🔢 Tokens: ${result.data.tokens}`
                             );
@@ -367,11 +657,204 @@ export function activate(context: vscode.ExtensionContext) {
             }
         });
 
+        // Ask for a name, tags and collection, then save a prompt to the library
+        const savePromptToLibrary = async (original: string, optimized: string, model: string, uri: vscode.Uri | undefined) => {
+            const name = (await vscode.window.showInputBox({
+                prompt: 'Name for the saved prompt',
+                placeHolder: 'e.g., Code review checklist',
+                validateInput: value => value.trim() ? undefined : 'Enter a name'
+            }))?.trim();
+            if (!name) {
+                return;
+            }
+            const tags = await vscode.window.showInputBox({
+                prompt: 'Tags, separated by commas (optional)',
+                placeHolder: 'e.g., review, typescript'
+            });
+            if (tags === undefined) {
+                return;
+            }
+
+            const folder = resolveWorkspaceFolder(uri);
+            const choice = await vscode.window.showQuickPick([
+                { label: '$(account) My Prompts', description: 'Only on this machine', collection: 'user' as PromptCollection },
+                ...(folder ? [{
+                    label: '$(repo) Workspace Prompts',
+                    description: `Shared with the team in ${folder.name}/${WORKSPACE_LIBRARY_FILE}`,
+                    collection: 'workspace' as PromptCollection
+                }] : [])
+            ], { placeHolder: 'Save to which collection?' });
+            if (!choice) {
+                return;
+            }
+
+            await promptLibrary.save({
+                name,
+                original,
+                optimized,
+                tags: tags.split(',').map(tag => tag.trim()).filter(Boolean),
+                model,
+                originalTokens: countTokens(original, model),
+                optimizedTokens: countTokens(optimized, model)
+            }, choice.collection, folder);
+            vscode.window.showInformationMessage(`💾 Saved "${name}" to ${choice.collection === 'workspace' ? `${folder!.name}/${WORKSPACE_LIBRARY_FILE}` : 'your prompt library'}`);
+        };
+
+        // Optimize text with the backend and offer to review the result before applying it
+        const runOptimization = async (text: string, editor: vscode.TextEditor | undefined) => {
+            try {
+                // Captured up front so moving the cursor during review does not change where the result goes
+                const target = editor?.selection;
+                const model = defaultModelFor(editor?.document.uri);
+                const engine = vscode.workspace
+                    .getConfiguration('costKatana.optimization', editor?.document.uri)
+                    .get<OptimizationEngine>('engine', 'backend');
+                let optimizedLocally = false;
+
+                const result = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: "Optimizing prompt...",
+                    cancellable: false
+                }, async (progress): Promise<APIResponse<PromptOptimization>> => {
+                    const firstPass = engine === 'backend' ? undefined : compressPrompt(text, model, pricing, editor?.document.uri);
+                    if (engine === 'local') {
+                        optimizedLocally = true;
+                        return { success: true, data: firstPass };
+                    }
+
+                    progress.report({ increment: 50 });
+                    console.log('📡 Making API call to optimize prompt');
+
+                    const signedIn = !!await credentials.getApiKey();
+                    const prompt = firstPass?.optimized_prompt ?? text;
+                    const response: APIResponse<PromptOptimization> = signedIn
+                        ? await api.optimizePrompt({
+                            prompt,
+                            currentTokens: countTokens(prompt, model),
+                            codeContext: {
+                                language: editor?.document.languageId,
+                                file_path: editor?.document.fileName
+                            },
+                            projectId: projectConfigs.resolve(editor?.document.uri).projectId
+                        })
+                        : { success: false, error: 'Not signed in' };
+
+                    progress.report({ increment: 100 });
+                    console.log('📡 Optimization result:', response);
+
+                    if (response.success && response.data && firstPass) {
+                        return { success: true, data: combineOptimizations(firstPass, response.data, model, pricing, editor?.document.uri) };
+                    }
+                    // The local compressor stands in when the backend cannot be used at all
+                    if (!response.success && (!signedIn || response.offline)) {
+                        console.log('📴 Backend unavailable, optimizing prompt locally');
+                        optimizedLocally = true;
+                        return { success: true, data: firstPass ?? compressPrompt(text, model, pricing, editor?.document.uri) };
+                    }
+                    return response;
+                });
+
+                if (!result.success || !result.data) {
+                    console.error('❌ Optimization failed:', result.error);
+                    vscode.window.showErrorMessage(`Failed to optimize prompt: ${result.error}`);
+                    return;
+                }
+
+                const optimization = result.data;
+                const recordApplied = async (applied: string) => {
+                    // Backend figures only describe the whole result, so partial accepts are estimated
+                    const whole = applied === optimization.optimized_prompt;
+                    const optimizedTokens = whole ? optimization.optimized_tokens : countTokens(applied, model);
+                    const reportedSavings = parseFloat(String(optimization.cost_savings).replace(/[^0-9.]/g, ''));
+                    const estimatedSavings = pricing.estimateCost(model, {
+                        inputTokens: Math.max(optimization.original_tokens - optimizedTokens, 0),
+                        outputTokens: 0
+                    }, editor?.document.uri)?.totalCost;
+                    const git = await gitContext.resolve(editor?.document.uri);
+                    await ledger.recordOptimization({
+                        model,
+                        originalTokens: optimization.original_tokens,
+                        optimizedTokens,
+                        savings: whole && Number.isFinite(reportedSavings) ? reportedSavings : estimatedSavings || 0,
+                        filePath: editor?.document.fileName,
+                        language: editor?.document.languageId,
+                        projectId: projectConfigs.resolve(editor?.document.uri).projectId,
+                        workspacePath: resolveWorkspaceFolder(editor?.document.uri)?.uri.fsPath,
+                        repository: git?.repository,
+                        branch: git?.branch,
+                        commit: git?.commit
+                    });
+                };
+
+                const action = await vscode.window.showInformationMessage(
+                    optimizedLocally
+                        ? `✨ Prompt optimized locally${engine === 'local' ? '' : ' (Cost Katana backend unavailable)'}. Token reduction: ${optimization.token_reduction}%`
+                        : `✨ Prompt optimized! Token reduction: ${optimization.token_reduction}%`,
+                    'Review Changes',
+                    'Copy to Clipboard',
+                    'Save to Library'
+                );
+                // Keeps the applied result around after the notification closes
+                const offerToSave = async (message: string, applied: string) => {
+                    if (await vscode.window.showInformationMessage(message, 'Save to Library') === 'Save to Library') {
+                        await savePromptToLibrary(text, applied, model, editor?.document.uri);
+                    }
+                };
+
+                if (action === 'Review Changes') {
+                    const accepted = await optimizationReview.open({
+                        original: text,
+                        optimized: optimization.optimized_prompt,
+                        title: `Optimized Prompt (${optimization.original_tokens} → ${optimization.optimized_tokens} tokens, saves ${optimization.cost_savings})`,
+                        extension: editor?.document.fileName.match(/\.\w+$/)?.[0],
+                        tokens: value => countTokens(value, model)
+                    });
+                    if (accepted === undefined) {
+                        vscode.window.showInformationMessage('Optimized prompt discarded');
+                        return;
+                    }
+
+                    if (editor && target) {
+                        if (!target.isEmpty && editor.document.getText(target) !== text) {
+                            vscode.window.showErrorMessage('The original text changed during review, so the optimized prompt was not applied.');
+                            return;
+                        }
+                        // A single edit, so one undo restores the original prompt
+                        const edit = new vscode.WorkspaceEdit();
+                        edit.replace(editor.document.uri, target, accepted);
+                        if (!await vscode.workspace.applyEdit(edit)) {
+                            vscode.window.showErrorMessage('Failed to apply the optimized prompt.');
+                            return;
+                        }
+                        await recordApplied(accepted);
+                        await offerToSave('✅ Text replaced with optimized prompt', accepted);
+                    } else {
+                        await vscode.env.clipboard.writeText(accepted);
+                        await recordApplied(accepted);
+                        await offerToSave('📋 Optimized prompt copied to clipboard', accepted);
+                    }
+                } else if (action === 'Copy to Clipboard') {
+                    await vscode.env.clipboard.writeText(optimization.optimized_prompt);
+                    await recordApplied(optimization.optimized_prompt);
+                    await offerToSave('📋 Optimized prompt copied to clipboard', optimization.optimized_prompt);
+                } else if (action === 'Save to Library') {
+                    await savePromptToLibrary(text, optimization.optimized_prompt, model, editor?.document.uri);
+                }
+            } catch (error) {
+                console.error('❌ Exception in optimization:', error);
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        };
+
         // Optimize Prompt Command
-        let optimizePromptCommand = vscode.commands.registerCommand('cost-katana.optimize-prompt', async () => {
+        // Prompt linter code actions pass the document and range to optimize
+        let optimizePromptCommand = vscode.commands.registerCommand('cost-katana.optimize-prompt', async (uri?: vscode.Uri, range?: vscode.Range) => {
             try {
                 console.log('⚡ Optimize prompt command started');
-                const editor = vscode.window.activeTextEditor;
+                let editor = vscode.window.activeTextEditor;
+                if (uri && range) {
+                    editor = await vscode.window.showTextDocument(uri, { selection: range });
+                }
                 
                 // Get text either from selection or show input box
                 let text = '';
@@ -398,68 +881,7 @@ export function activate(context: vscode.ExtensionContext) {
                                 return;
                             }
 
-                            // Show progress
-                            await vscode.window.withProgress({
-                                location: vscode.ProgressLocation.Notification,
-                                title: "Optimizing prompt...",
-                                cancellable: false
-                            }, async (progress) => {
-                                try {
-                                    progress.report({ increment: 50 });
-                                    console.log('📡 Making API call to optimize prompt');
-                                    
-                                    const result = await api.optimizePrompt({
-                                        prompt: text,
-                                        currentTokens: Math.ceil(text.length / 4),
-                                        codeContext: {
-                                            language: editor?.document.languageId,
-                                            file_path: editor?.document.fileName
-                                        }
-                                    });
-
-                                    progress.report({ increment: 100 });
-                                    console.log('📡 Optimization result:', result);
-
-                                    if (result.success && result.data) {
-                                        const action = await vscode.window.showInformationMessage(
-                                            `✨ Prompt optimized! Token reduction: ${result.data.token_reduction}%`,
-                                            'Replace Selection',
-                                            'Copy to Clipboard',
-                                            'Show Details'
-                                        );
-
-                                        if (action === 'Replace Selection' && editor) {
-                                            await editor.edit(editBuilder => {
-                                                if (!editor.selection.isEmpty) {
-                                                    editBuilder.replace(editor.selection, result.data!.optimized_prompt);
-                                                } else {
-                                                    editBuilder.insert(editor.selection.active, result.data!.optimized_prompt);
-                                                }
-                                            });
-                                            vscode.window.showInformationMessage('✅ Text replaced with optimized prompt');
-                                        } else if (action === 'Copy to Clipboard') {
-                                            await vscode.env.clipboard.writeText(result.data.optimized_prompt);
-                                            vscode.window.showInformationMessage('📋 Optimized prompt copied to clipboard');
-                                        } else if (action === 'Show Details') {
-                                            // Show details in a new webview panel
-                                            const panel = vscode.window.createWebviewPanel(
-                                                'optimizationDetails',
-                                                'Optimization Details',
-                                                vscode.ViewColumn.Two,
-                                                { enableScripts: true }
-                                            );
-
-                                            panel.webview.html = getOptimizationDetailsHtml(result.data);
-                                        }
-                                    } else {
-                                        console.error('❌ Optimization failed:', result.error);
-                                        vscode.window.showErrorMessage(`Failed to optimize prompt: ${result.error}`);
-                                    }
-                                } catch (error) {
-                                    console.error('❌ Exception in optimization:', error);
-                                    vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-                                }
-                            });
+                            await runOptimization(text, editor);
                             resolve();
                         });
 
@@ -473,68 +895,7 @@ export function activate(context: vscode.ExtensionContext) {
 
                 // If we got text from selection, process it
                 if (text) {
-                    // Show progress
-                    await vscode.window.withProgress({
-                        location: vscode.ProgressLocation.Notification,
-                        title: "Optimizing prompt...",
-                        cancellable: false
-                    }, async (progress) => {
-                        try {
-                            progress.report({ increment: 50 });
-                            console.log('📡 Making API call to optimize prompt');
-                            
-                            const result = await api.optimizePrompt({
-                                prompt: text,
-                                currentTokens: Math.ceil(text.length / 4),
-                                codeContext: {
-                                    language: editor?.document.languageId,
-                                    file_path: editor?.document.fileName
-                                }
-                            });
-
-                            progress.report({ increment: 100 });
-                            console.log('📡 Optimization result:', result);
-
-                            if (result.success && result.data) {
-                                const action = await vscode.window.showInformationMessage(
-                                    `✨ Prompt optimized! Token reduction: ${result.data.token_reduction}%`,
-                                    'Replace Selection',
-                                    'Copy to Clipboard',
-                                    'Show Details'
-                                );
-
-                                if (action === 'Replace Selection' && editor) {
-                                    await editor.edit(editBuilder => {
-                                        if (!editor.selection.isEmpty) {
-                                            editBuilder.replace(editor.selection, result.data!.optimized_prompt);
-                                        } else {
-                                            editBuilder.insert(editor.selection.active, result.data!.optimized_prompt);
-                                        }
-                                    });
-                                    vscode.window.showInformationMessage('✅ Text replaced with optimized prompt');
-                                } else if (action === 'Copy to Clipboard') {
-                                    await vscode.env.clipboard.writeText(result.data.optimized_prompt);
-                                    vscode.window.showInformationMessage('📋 Optimized prompt copied to clipboard');
-                                } else if (action === 'Show Details') {
-                                    // Show details in a new webview panel
-                                    const panel = vscode.window.createWebviewPanel(
-                                        'optimizationDetails',
-                                        'Optimization Details',
-                                        vscode.ViewColumn.Two,
-                                        { enableScripts: true }
-                                    );
-
-                                    panel.webview.html = getOptimizationDetailsHtml(result.data);
-                                }
-                            } else {
-                                console.error('❌ Optimization failed:', result.error);
-                                vscode.window.showErrorMessage(`Failed to optimize prompt: ${result.error}`);
-                            }
-                        } catch (error) {
-                            console.error('❌ Exception in optimization:', error);
-                            vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-                        }
-                    });
+                    await runOptimization(text, editor);
                 }
             } catch (error) {
                 console.error('❌ Exception in optimize prompt command:', error);
@@ -546,21 +907,14 @@ export function activate(context: vscode.ExtensionContext) {
         let showAnalyticsCommand = vscode.commands.registerCommand('cost-katana.show-analytics', async () => {
             try {
                 console.log('📊 Show analytics command started');
-                
-                // Show loading message
-                vscode.window.showInformationMessage('Loading analytics...');
-                
-                const result = await api.getAnalytics();
-                console.log('📊 Analytics result:', result);
-                
-                if (result.success && result.data) {
-                    const summary = result.data.summary;
-                    const cursorSpecific = result.data.cursor_specific;
-                    
-                                    // Create a beautiful webview panel for analytics
-                const panel = vscode.window.createWebviewPanel(
+
+                // Scoped to the active folder's project when it has one
+                const project = projectConfigs.resolve(vscode.window.activeTextEditor?.document.uri);
+                const scope = { projectId: project.projectId, budget: project.budget };
+
+                const panel = webviews.createPanel(
                     'costKatanaAnalytics',
-                    'Cost Katana Analytics',
+                    project.projectName ? `Cost Katana Analytics — ${project.projectName}` : 'Cost Katana Analytics',
                     vscode.ViewColumn.One,
                     {
                         enableScripts: true,
@@ -568,69 +922,98 @@ export function activate(context: vscode.ExtensionContext) {
                     }
                 );
 
-                // Create beautiful HTML content with real-time updates
-                panel.webview.html = getAnalyticsHtml(summary, cursorSpecific, true);
-                
+                const load = async () => {
+                    panel.webview.html = webviews.render(panel.webview, getLoadingPage());
+                    try {
+                        const result = await api.getAnalytics(scope);
+                        console.log('📊 Analytics result:', result);
+
+                        // Fall back to the local ledger while the backend is unreachable
+                        let analytics = result.success ? result.data : undefined;
+                        let localHistory: LocalHistory | undefined;
+                        if (!analytics && result.offline) {
+                            const now = new Date();
+                            const query = { projectId: scope.projectId, since: new Date(now.getFullYear(), now.getMonth(), 1) };
+                            analytics = await ledger.toAnalytics(query);
+                            localHistory = {
+                                byDay: await ledger.aggregate('day', query),
+                                byModel: await ledger.aggregate('model', query)
+                            };
+                        }
+
+                        if (!analytics) {
+                            console.error('❌ Analytics failed:', result.error);
+                            panel.webview.html = webviews.render(panel.webview, getErrorPage(result.error || 'Unknown error'));
+                            return;
+                        }
+
+                        const forecast = await forecastSpend(ledger, {
+                            projectId: scope.projectId,
+                            budget: project.budget ?? budgetFromSummary(analytics.summary),
+                            monthToDate: result.success ? parseFloat(analytics.summary.total_spending_this_month) || undefined : undefined
+                        });
+                        panel.webview.html = webviews.render(
+                            panel.webview,
+                            getAnalyticsPage(analytics.summary, analytics.cursor_specific, true, localHistory, forecast)
+                        );
+                    } catch (error) {
+                        console.error('❌ Exception in show analytics:', error);
+                        panel.webview.html = webviews.render(panel.webview, getErrorPage(error instanceof Error ? error.message : 'Unknown error'));
+                    }
+                };
+                await load();
+
                 // Set up auto-refresh for real-time updates
                 const refreshInterval = setInterval(async () => {
-                    if (panel.visible) {
+                    if (panel.visible && !api.isCircuitOpen) {
                         try {
-                            const freshResult = await api.getAnalytics();
+                            const freshResult = await api.getAnalytics(scope);
                             if (freshResult.success && freshResult.data) {
-                                panel.webview.postMessage({
-                                    command: 'updateData',
-                                    data: freshResult.data
-                                });
+                                postToWebview(panel.webview, { command: 'updateData', data: freshResult.data });
                             }
                         } catch (error) {
                             console.error('Auto-refresh error:', error);
                         }
                     }
                 }, 15000); // Refresh every 15 seconds
-                
+
+                // Released with the panel rather than the extension
+                const panelDisposables: vscode.Disposable[] = [];
                 panel.onDidDispose(() => {
                     clearInterval(refreshInterval);
+                    panelDisposables.forEach(disposable => disposable.dispose());
                 });
-                    
-                    // Handle messages from webview
-                    panel.webview.onDidReceiveMessage(
-                        async message => {
-                            switch (message.command) {
-                                case 'trackUsage':
-                                    vscode.commands.executeCommand('cost-katana.track-usage');
-                                    break;
-                                case 'optimizePrompt':
-                                    vscode.commands.executeCommand('cost-katana.optimize-prompt');
-                                    break;
-                                case 'getTips':
-                                    vscode.commands.executeCommand('cost-katana.get-suggestions');
-                                    break;
-                                case 'refresh':
-                                    console.log('🔄 Manual refresh requested');
-                                    try {
-                                        const freshResult = await api.getAnalytics();
-                                        if (freshResult.success && freshResult.data) {
-                                            panel.webview.postMessage({
-                                                command: 'updateData',
-                                                data: freshResult.data
-                                            });
-                                            vscode.window.showInformationMessage('📊 Analytics updated!');
-                                        }
-                                    } catch (error) {
-                                        console.error('Manual refresh error:', error);
-                                        vscode.window.showErrorMessage('Failed to refresh analytics');
-                                    }
-                                    break;
+
+                // Handle messages from webview
+                onWebviewMessage(panel.webview, async message => {
+                    switch (message.command) {
+                        case 'trackUsage':
+                            vscode.commands.executeCommand('cost-katana.track-usage');
+                            break;
+                        case 'optimizePrompt':
+                            vscode.commands.executeCommand('cost-katana.optimize-prompt');
+                            break;
+                        case 'getTips':
+                            vscode.commands.executeCommand('cost-katana.get-suggestions');
+                            break;
+                        case 'retry':
+                            await load();
+                            break;
+                        case 'refresh':
+                            console.log('🔄 Manual refresh requested');
+                            try {
+                                const freshResult = await api.getAnalytics(scope);
+                                if (freshResult.success && freshResult.data) {
+                                    postToWebview(panel.webview, { command: 'updateData', data: freshResult.data });
+                                    vscode.window.showInformationMessage('📊 Analytics updated!');
+                                }
+                            } catch (error) {
+                                console.error('Manual refresh error:', error);
+                                vscode.window.showErrorMessage('Failed to refresh analytics');
                             }
-                        },
-                        undefined,
-                        context.subscriptions
-                    );
-                    
-                } else {
-                    console.error('❌ Analytics failed:', result.error);
-                    vscode.window.showErrorMessage(`Failed to get analytics: ${result.error}`);
-                }
+                            break;
+                    }
+                }, panelDisposables);
             } catch (error) {
                 console.error('❌ Exception in show analytics:', error);
                 vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -639,15 +1022,19 @@ export function activate(context: vscode.ExtensionContext) {
 
         // Setup Workspace Command
         let setupWorkspaceCommand = vscode.commands.registerCommand('cost-katana.setup-workspace', async () => {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders || workspaceFolders.length === 0) {
-                vscode.window.showErrorMessage('No workspace folder found');
+            const folder = await pickWorkspaceFolder('Select the folder to set up');
+            if (!folder) {
                 return;
             }
 
+            const profile = await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Window,
+                title: 'Inspecting workspace...'
+            }, () => inspectWorkspace(folder));
+
             const workspaceName = await vscode.window.showInputBox({
                 prompt: 'Enter workspace name',
-                value: workspaceFolders[0].name,
+                value: folder.name,
                 placeHolder: 'My Project'
             });
 
@@ -655,37 +1042,55 @@ export function activate(context: vscode.ExtensionContext) {
                 return;
             }
 
-            const language = await vscode.window.showQuickPick([
-                'javascript',
-                'typescript',
-                'python',
-                'java',
-                'c#',
-                'go',
-                'rust',
-                'php',
-                'ruby',
-                'other'
-            ], {
+            // Detected languages first, then the rest of the usual list
+            const knownLanguages = ['javascript', 'typescript', 'python', 'java', 'c#', 'go', 'rust', 'php', 'ruby'];
+            const languageItems: vscode.QuickPickItem[] = [
+                ...profile.languages.map(language => ({ label: language, description: 'detected' })),
+                ...knownLanguages.filter(language => !profile.languages.includes(language)).map(label => ({ label })),
+                { label: 'other' }
+            ];
+            const languageItem = await vscode.window.showQuickPick(languageItems, {
                 placeHolder: 'Select primary language'
             });
+            const language = languageItem?.label;
 
             if (!language) {
                 return;
             }
 
+            let frameworks = profile.frameworks;
+            if (frameworks.length > 1) {
+                const picked = await vscode.window.showQuickPick(
+                    frameworks.map(framework => ({ label: framework, picked: true })),
+                    { placeHolder: 'Confirm the frameworks used in this workspace', canPickMany: true }
+                );
+                if (!picked) {
+                    return;
+                }
+                frameworks = picked.map(item => item.label);
+            }
+
             try {
                 const result = await api.setupWorkspace({
                     name: workspaceName,
-                    path: workspaceFolders[0].uri.fsPath,
+                    path: folder.uri.fsPath,
                     language,
-                    framework: 'unknown'
+                    framework: frameworks[0] || 'unknown',
+                    languages: [language, ...profile.languages.filter(l => l !== language)],
+                    frameworks,
+                    llm_sdks: profile.llmSdks
                 });
 
                 if (result.success && result.data) {
-                    vscode.window.showInformationMessage(
-                        `✅ Workspace "${workspaceName}" connected to project "${result.data.project_name}"`
+                    const project = { id: result.data.project_id, name: result.data.project_name };
+                    await projectBindings.set(folder, project);
+                    const action = await vscode.window.showInformationMessage(
+                        `✅ Workspace "${workspaceName}" connected to project "${project.name}"`,
+                        `Save to ${PROJECT_CONFIG_FILE}`
                     );
+                    if (action) {
+                        await saveProjectFile(folder, project);
+                    }
                 } else {
                     vscode.window.showErrorMessage(`Failed to setup workspace: ${result.error}`);
                 }
@@ -770,40 +1175,11 @@ export function activate(context: vscode.ExtensionContext) {
 
                         if (result.success && result.data) {
                             const suggestions = result.data.suggestions;
+                            suggestionsProvider.setSuggestions(suggestions, filePath);
                             if (suggestions.length > 0) {
                                 // Show suggestions in a webview panel
-                                const panel = vscode.window.createWebviewPanel(
-                                    'codeSuggestions',
-                                    'Code Suggestions',
-                                    vscode.ViewColumn.Two,
-                                    { enableScripts: true }
-                                );
-
-                                panel.webview.html = getSuggestionsHtml(suggestions, code);
-
-                                // Handle webview messages
-                                panel.webview.onDidReceiveMessage(
-                                    message => {
-                                        switch (message.command) {
-                                            case 'applySuggestion':
-                                                if (editor) {
-                                                    editor.edit(editBuilder => {
-                                                        if (!editor.selection.isEmpty) {
-                                                            editBuilder.replace(editor.selection, message.code);
-                                                        } else {
-                                                            editBuilder.replace(new vscode.Range(
-                                                                editor.document.positionAt(0),
-                                                                editor.document.positionAt(editor.document.getText().length)
-                                                            ), message.code);
-                                                        }
-                                                    });
-                                                }
-                                                break;
-                                    }
-                                },
-                                undefined,
-                                context.subscriptions
-                            );
+                                const panel = webviews.createPanel('codeSuggestions', 'Code Suggestions', vscode.ViewColumn.Two);
+                                panel.webview.html = webviews.render(panel.webview, getSuggestionsPage(suggestions, code));
                             } else {
                                 vscode.window.showInformationMessage('No suggestions available for this code');
                             }
@@ -842,7 +1218,8 @@ export function activate(context: vscode.ExtensionContext) {
                 const result = await api.analyzeCode({
                     code_snippet: text,
                     language: editor.document.languageId,
-                    file_path: editor.document.fileName
+                    file_path: editor.document.fileName,
+                    projectId: projectConfigs.resolve(editor.document.uri).projectId
                 });
 
                 if (result.success && result.data) {
@@ -873,44 +1250,67 @@ ${analysis.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n')}
         // ===== ADDITIONAL COMMANDS FROM README =====
 
         // Get Model Recommendations Command
-        let getModelRecommendationsCommand = vscode.commands.registerCommand('cost-katana.get-model-recommendations', async () => {
-            const taskType = await vscode.window.showQuickPick([
-                'Simple code generation',
-                'Complex algorithm implementation',
-                'Code review and analysis',
-                'Bug fixing',
-                'Documentation generation',
-                'Testing code',
-                'Refactoring',
-                'Performance optimization'
-            ], {
-                placeHolder: 'Select your task type'
-            });
-
-            if (!taskType) return;
+        // Also opened from a cost CodeLens, in which case estimates use that call's token counts
+        let getModelRecommendationsCommand = vscode.commands.registerCommand('cost-katana.get-model-recommendations', async (callSite?: CallSiteRecommendation) => {
+            try {
+                const document = callSite ? await vscode.workspace.openTextDocument(callSite.uri) : vscode.window.activeTextEditor?.document;
+                const scope = document?.uri;
+                const usage = callSite ? { inputTokens: callSite.inputTokens, outputTokens: callSite.outputTokens } : TYPICAL_REQUEST;
+                const recommendations = await recommendModels(ledger, pricing, {
+                    languageId: document?.languageId,
+                    extension: document?.fileName.match(/\.\w+$/)?.[0],
+                    usage,
+                    scope
+                });
+                if (recommendations.length === 0) {
+                    vscode.window.showInformationMessage('No priced models to recommend. Refresh the pricing catalog and try again.');
+                    return;
+                }
 
-            const budget = await vscode.window.showQuickPick([
-                'Low cost (under $0.01 per request)',
-                'Medium cost (under $0.10 per request)',
-                'High cost (unlimited budget)'
-            ], {
-                placeHolder: 'Select your budget preference'
-            });
+                const currentModel = callSite?.model || defaultModelFor(scope);
+                const currentCost = pricing.estimateCost(currentModel, usage, scope)?.totalCost;
+                const fromHistory = recommendations.some(recommendation => recommendation.history);
+
+                const selected = await vscode.window.showQuickPick(
+                    recommendations.map(r => ({
+                        label: r.model === currentModel ? `$(check) ${r.model}` : r.model,
+                        description: `${formatCost(r.estimatedCost)}/request` +
+                            (currentCost !== undefined && r.model !== currentModel ? ` (currently ${formatCost(currentCost)} with ${currentModel})` : ''),
+                        detail: r.reason,
+                        model: r.model
+                    })),
+                    {
+                        placeHolder: (callSite ? `Recommended alternatives to ${callSite.model} for this call` : 'Select a model to use as the workspace default') +
+                            (fromHistory ? ', ranked by tracked usage' : '')
+                    }
+                );
 
-            if (!budget) return;
+                if (!selected) {
+                    return;
+                }
 
-            // Generate recommendations based on task and budget
-            const recommendations = getModelRecommendations(taskType, budget);
-            
-            const selected = await vscode.window.showQuickPick(
-                recommendations.map(r => `${r.model} - ${r.reason} ($${r.estimatedCost}/request)`),
-                {
-                    placeHolder: 'Select a recommended model'
+                // Only swap the literal within the same provider; other SDKs need code changes
+                const sameProvider = pricing.getModel(selected.model)?.provider === pricing.getModel(callSite?.model || '')?.provider;
+                if (callSite?.modelRange && sameProvider && selected.model !== callSite.model) {
+                    const useInCall = `Use ${selected.model} in This Call`;
+                    const action = await vscode.window.showInformationMessage(
+                        `Selected: ${selected.model}`,
+                        useInCall,
+                        'Set as Workspace Default'
+                    );
+                    if (action === useInCall) {
+                        const edit = new vscode.WorkspaceEdit();
+                        edit.replace(callSite.uri, callSite.modelRange, selected.model);
+                        await vscode.workspace.applyEdit(edit);
+                    } else if (action) {
+                        await setDefaultModel(selected.model, scope);
+                    }
+                    return;
                 }
-            );
 
-            if (selected) {
-                vscode.window.showInformationMessage(`Selected: ${selected}`);
+                await setDefaultModel(selected.model, scope);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
             }
         });
 
@@ -941,16 +1341,17 @@ ${analysis.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n')}
             }
             
             // API Key configuration
-            const currentApiKey = (config.get('apiKey') as string) || '';
+            const hasApiKey = await api.hasApiKey();
             const apiKey = await vscode.window.showInputBox({
-                prompt: 'Enter your API Key',
-                value: currentApiKey,
+                prompt: hasApiKey
+                    ? 'Enter a new API Key (leave empty to keep the stored key)'
+                    : 'Enter your API Key',
                 password: true,
                 placeHolder: 'your-api-key-here'
             });
             
             if (apiKey) {
-                api.updateApiKey(apiKey);
+                await api.updateApiKey(apiKey);
             }
             
             // User ID configuration
@@ -977,12 +1378,12 @@ ${analysis.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n')}
                 // Test API connection
                 const config = vscode.workspace.getConfiguration('costKatana');
                 const backendUrl = config.get('backendUrl') as string;
-                const apiKey = config.get('apiKey') as string;
+                const hasApiKey = await api.hasApiKey();
                 
                 const statusMessage = `
 🔧 **Extension Status:**
 • Backend URL: ${backendUrl || 'Not configured'}
-• API Key: ${apiKey ? '✅ Configured' : '❌ Not configured'}
+• API Key: ${hasApiKey ? '✅ Configured (secure storage)' : '❌ Not configured'}
 • Extension Version: 1.0.12
 • VS Code Version: ${vscode.version}
                 `.trim();
@@ -1004,9 +1405,19 @@ ${analysis.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n')}
                 console.log('🏥 Health check result:', result);
                 
                 if (result.success) {
-                    vscode.window.showInformationMessage('✅ API is healthy and accessible!');
+                    await usageQueue.flush();
+                }
+
+                const queueStatus = usageQueue.getStatus();
+                const lastFlush = queueStatus.lastFlushAt
+                    ? `${new Date(queueStatus.lastFlushAt).toLocaleString()} (${queueStatus.lastFlushCount} sent)`
+                    : 'never';
+                const queueSummary = `📦 Offline queue: ${queueStatus.pending} pending • Last flush: ${lastFlush}`;
+
+                if (result.success) {
+                    vscode.window.showInformationMessage(`✅ API is healthy and accessible!\n${queueSummary}`);
                 } else {
-                    vscode.window.showErrorMessage(`❌ API health check failed: ${result.error}`);
+                    vscode.window.showErrorMessage(`❌ API health check failed: ${result.error}\n${queueSummary}`);
                 }
             } catch (error) {
                 console.error('🏥 Health check failed:', error);
@@ -1014,719 +1425,1373 @@ ${analysis.recommendations.map((rec, i) => `${i + 1}. ${rec}`).join('\n')}
             }
         });
 
-        // Register all commands
-        context.subscriptions.push(
-            connectAccountCommand,
-            trackUsageCommand,
-            optimizePromptCommand,
-            showAnalyticsCommand,
-            setupWorkspaceCommand,
-            getSuggestionsCommand,
-            analyzeCodeCommand,
-            getModelRecommendationsCommand,
-            toggleAutomaticTrackingCommand,
-            configureExtensionCommand,
-            testCommand,
-            healthCheckCommand,
-            cursorAIListener,
-            documentChangeListener,
-            cursorAutoModeListener,
-            cursorInlineSuggestionsListener,
-            cursorChatListener,
-            cursorExplainListener
-        );
+        // Sign Out Command
+        let signOutCommand = vscode.commands.registerCommand('cost-katana.sign-out', async () => {
+            const confirm = await vscode.window.showWarningMessage(
+                'Sign out of Cost Katana? Your API key will be removed from this machine.',
+                { modal: true },
+                'Sign Out'
+            );
 
-        // Start real-time tracking
-        api.startRealTimeTracking();
+            if (confirm !== 'Sign Out') {
+                return;
+            }
 
-        // Show welcome message
-        vscode.window.showInformationMessage(
-            '🚀 Cost Katana AI Optimizer activated! Use "Cost Katana: Connect Account" to get started.',
-            'Connect Account'
-        ).then(selection => {
-            if (selection === 'Connect Account') {
-                vscode.commands.executeCommand('cost-katana.connect-account');
+            try {
+                await api.signOut();
+                await vscode.workspace.getConfiguration('costKatana').update('userEmail', undefined, true);
+                vscode.window.showInformationMessage('👋 Signed out of Cost Katana');
+            } catch (error) {
+                console.error('❌ Sign out failed:', error);
+                vscode.window.showErrorMessage(`Sign out failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
             }
         });
-    } catch (error) {
-        console.error('Error initializing Cost Katana API:', error);
-        vscode.window.showErrorMessage(`Failed to initialize Cost Katana API: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-}
 
-// Function to generate beautiful HTML for analytics
-function getLoadingHtml(): string {
-    return `
-        <!DOCTYPE html>
-        <html>
-        <head>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <title>Cost Katana Analytics</title>
-            <style>
-                body { 
-                    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-                    padding: 20px;
-                    background: #1e1e1e;
-                    color: #fff;
-                    margin: 0;
-                }
-                .loading { text-align: center; padding: 50px; }
-                .spinner { 
-                    border: 4px solid #333;
-                    border-top: 4px solid #007acc;
-                    border-radius: 50%;
-                    width: 40px;
-                    height: 40px;
-                    animation: spin 1s linear infinite;
-                    margin: 0 auto 20px;
-                }
-                @keyframes spin {
-                    0% { transform: rotate(0deg); }
-                    100% { transform: rotate(360deg); }
-                }
-            </style>
-        </head>
-        <body>
-            <div class="loading">
-                <div class="spinner"></div>
-                <p>Loading analytics data...</p>
-            </div>
-        </body>
-        </html>
-    `;
-}
+        // Rotate Key Command
+        let rotateKeyCommand = vscode.commands.registerCommand('cost-katana.rotate-key', async () => {
+            const newKey = await vscode.window.showInputBox({
+                prompt: 'Enter your new Cost Katana API Key',
+                password: true,
+                ignoreFocusOut: true,
+                placeHolder: 'your-new-api-key'
+            });
 
-function getErrorHtml(error: string): string {
-    return `
-        <!DOCTYPE html>
-        <html>
-        <head>
-            <meta charset="UTF-8">
-            <title>Analytics Error</title>
-            <style>body { font-family: sans-serif; padding: 20px; background: #1e1e1e; color: #fff; }</style>
-        </head>
-        <body>
-            <h2>❌ Failed to Load Analytics</h2>
-            <p>Error: ${error}</p>
-            <button onclick="window.location.reload()">🔄 Retry</button>
-        </body>
-        </html>
-    `;
+            if (!newKey) {
+                return;
+            }
+
+            const previousKey = await credentials.getApiKey();
+            try {
+                await api.updateApiKey(newKey);
+
+                // Verify the new key before discarding the old one
+                const check = await api.getAnalytics();
+                if (!check.success && !check.offline) {
+                    if (previousKey) {
+                        await api.updateApiKey(previousKey);
+                    } else {
+                        await credentials.deleteApiKey();
+                    }
+                    vscode.window.showErrorMessage(`❌ New API key was rejected: ${check.error}. The previous key was kept.`);
+                    return;
+                }
+
+                vscode.window.showInformationMessage(
+                    check.offline
+                        ? '🔑 API key rotated. The backend is unreachable, so the new key could not be verified yet.'
+                        : '🔑 API key rotated successfully!'
+                );
+            } catch (error) {
+                console.error('❌ Key rotation failed:', error);
+                vscode.window.showErrorMessage(`Key rotation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        // Refresh Pricing Command
+        let refreshPricingCommand = vscode.commands.registerCommand('cost-katana.refresh-pricing', async () => {
+            try {
+                const updated = await pricing.refresh(true);
+                vscode.window.showInformationMessage(
+                    updated
+                        ? `💲 Pricing catalog updated to version ${pricing.version}`
+                        : `💲 Pricing catalog is up to date (version ${pricing.version})`
+                );
+            } catch (error) {
+                console.error('❌ Pricing refresh failed:', error);
+                vscode.window.showErrorMessage(`Failed to refresh pricing: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        // Snooze Budget Alerts Command
+        let snoozeBudgetAlertsCommand = vscode.commands.registerCommand('cost-katana.snooze-budget-alerts', async () => {
+            await budgetAlerts.snooze();
+        });
+
+        // Audit the local usage ledger as a Markdown report
+        let showUsageHistoryCommand = vscode.commands.registerCommand('cost-katana.show-usage-history', async () => {
+            try {
+                type GroupPick = vscode.QuickPickItem & { groupBy?: LedgerGroupBy };
+                const groupChoice = await vscode.window.showQuickPick<GroupPick>([
+                    { label: 'By Day', groupBy: 'day' },
+                    { label: 'By Model', groupBy: 'model' },
+                    { label: 'By File', groupBy: 'file' },
+                    { label: 'By Project', groupBy: 'project' },
+                    { label: 'By Branch', groupBy: 'branch' },
+                    { label: '', kind: vscode.QuickPickItemKind.Separator },
+                    { label: '$(go-to-file) Open Raw Ledger', description: ledger.fileUri.fsPath }
+                ], { placeHolder: `Usage tracked on this machine (${ledger.scope} ledger)` });
+                if (!groupChoice) {
+                    return;
+                }
+
+                if (!groupChoice.groupBy) {
+                    const document = await vscode.workspace.openTextDocument(ledger.fileUri);
+                    await vscode.window.showTextDocument(document);
+                    return;
+                }
+
+                const now = new Date();
+                const rangeChoice = await vscode.window.showQuickPick([
+                    { label: 'This Month', since: new Date(now.getFullYear(), now.getMonth(), 1) },
+                    { label: 'Last 30 Days', since: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000) },
+                    { label: 'All Time', since: undefined }
+                ], { placeHolder: 'Time range' });
+                if (!rangeChoice) {
+                    return;
+                }
+
+                const buckets = await ledger.aggregate(groupChoice.groupBy, { since: rangeChoice.since });
+                const totalCost = buckets.reduce((sum, bucket) => sum + bucket.cost, 0);
+                const totalRequests = buckets.reduce((sum, bucket) => sum + bucket.requests, 0);
+                const heading = groupChoice.label.replace('By ', '');
+
+                const lines = [
+                    `# Cost Katana Usage History — ${groupChoice.label}, ${rangeChoice.label}`,
+                    '',
+                    `${totalRequests} requests, ${formatCost(totalCost)} total. Costs marked as estimates in the ledger use local model pricing.`,
+                    '',
+                    `| ${heading} | Requests | Tokens | Cost |`,
+                    '|---|---:|---:|---:|',
+                    ...buckets.map(bucket => `| ${bucket.key.replace(/\|/g, '\\|')} | ${bucket.requests} | ${bucket.tokens} | ${formatCost(bucket.cost)} |`),
+                    '',
+                    `_Source: ${ledger.fileUri.fsPath}_`
+                ];
+                const document = await vscode.workspace.openTextDocument({ content: lines.join('\n'), language: 'markdown' });
+                await vscode.window.showTextDocument(document);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        let branchCostReportCommand = vscode.commands.registerCommand('cost-katana.branch-cost-report', async () => {
+            try {
+                const totals = await getBranchTotals(ledger);
+                if (totals.length === 0) {
+                    vscode.window.showInformationMessage('No usage with Git branch information has been tracked yet.');
+                    return;
+                }
+
+                const current = await gitContext.resolve(vscode.window.activeTextEditor?.document.uri);
+                type BranchPick = vscode.QuickPickItem & { focus?: { repository: string; branch: string } };
+                const choice = await vscode.window.showQuickPick<BranchPick>([
+                    { label: '$(list-flat) All Branches', description: 'Spend per branch only' },
+                    { label: '', kind: vscode.QuickPickItemKind.Separator },
+                    ...totals.map(total => ({
+                        label: `$(git-branch) ${total.branch}`,
+                        description: `${formatCost(total.cost)} • ${total.requests} requests` +
+                            (current?.repository === total.repository && current.branch === total.branch ? ' • current' : ''),
+                        detail: total.repository,
+                        focus: { repository: total.repository, branch: total.branch }
+                    }))
+                ], { placeHolder: 'Select a branch to break down by commit range', matchOnDetail: true });
+                if (!choice) {
+                    return;
+                }
+
+                const report = await buildBranchCostReport(ledger, gitContext, choice.focus);
+                const document = await vscode.workspace.openTextDocument({ content: report, language: 'markdown' });
+                await vscode.window.showTextDocument(document);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        // Markdown summary of the AI spend on the current branch for a pull request description
+        let prCostSummaryCommand = vscode.commands.registerCommand('cost-katana.pr-cost-summary', async () => {
+            try {
+                const uri = vscode.window.activeTextEditor?.document.uri || vscode.workspace.workspaceFolders?.[0]?.uri;
+                const current = await gitContext.resolve(uri);
+                if (!current?.branch) {
+                    vscode.window.showErrorMessage('Open a file in a Git repository with a branch checked out to summarize its AI cost.');
+                    return;
+                }
+
+                const candidates = await gitContext.getBaseCandidates(uri);
+                if (candidates.length === 0) {
+                    vscode.window.showErrorMessage(`No other branch to compare "${current.branch}" with.`);
+                    return;
+                }
+                const baseRef = candidates.length === 1 ? candidates[0] : await vscode.window.showQuickPick(candidates, {
+                    placeHolder: `Compare "${current.branch}" with...`
+                });
+                if (!baseRef) {
+                    return;
+                }
+
+                const range = await gitContext.compareWith(uri, baseRef);
+                if (!range) {
+                    vscode.window.showErrorMessage(`Could not find a merge base between "${current.branch}" and "${baseRef}".`);
+                    return;
+                }
+
+                const summary = await buildPullRequestSummary(ledger, range);
+                const destination = await vscode.window.showQuickPick(['Copy to Clipboard', 'Save to File...'], {
+                    placeHolder: 'Where should the summary go?'
+                });
+
+                if (destination === 'Copy to Clipboard') {
+                    await vscode.env.clipboard.writeText(summary);
+                    vscode.window.showInformationMessage('📋 AI cost summary copied to clipboard');
+                } else if (destination === 'Save to File...') {
+                    const folder = resolveWorkspaceFolder(uri);
+                    const target = await vscode.window.showSaveDialog({
+                        defaultUri: folder ? vscode.Uri.joinPath(folder.uri, 'ai-cost-summary.md') : undefined,
+                        filters: { Markdown: ['md'] }
+                    });
+                    if (!target) {
+                        return;
+                    }
+                    await vscode.workspace.fs.writeFile(target, Buffer.from(summary, 'utf8'));
+                    const action = await vscode.window.showInformationMessage(`✅ AI cost summary saved to ${vscode.workspace.asRelativePath(target)}`, 'Open');
+                    if (action === 'Open') {
+                        await vscode.window.showTextDocument(target);
+                    }
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        // Price the selection or a typed prompt on every catalog model
+        let compareModelsCommand = vscode.commands.registerCommand('cost-katana.compare-models', async () => {
+            try {
+                const editor = vscode.window.activeTextEditor;
+                const text = editor && !editor.selection.isEmpty
+                    ? editor.document.getText(editor.selection)
+                    : await vscode.window.showInputBox({
+                        prompt: 'Prompt to compare across models',
+                        placeHolder: 'Select text in the editor first to compare a longer prompt',
+                        ignoreFocusOut: true
+                    });
+                if (!text) {
+                    return;
+                }
+
+                const comparison = await compareModels(text, pricing, ledger, editor?.document.uri);
+                const panel = webviews.createPanel('costKatanaCompareModels', 'Compare Models', vscode.ViewColumn.Beside, { enableScripts: true });
+                panel.webview.html = webviews.render(
+                    panel.webview,
+                    getModelComparisonPage(comparison, text.length > 300 ? `${text.substring(0, 300)}...` : text)
+                );
+
+                // Costs are priced and formatted here whenever the page changes the output size or volume
+                const panelDisposables: vscode.Disposable[] = [];
+                panel.onDidDispose(() => panelDisposables.forEach(disposable => disposable.dispose()));
+                onWebviewMessage(panel.webview, message => {
+                    if (message.command === 'priceComparison') {
+                        postToWebview(panel.webview, {
+                            command: 'comparisonPrices',
+                            prices: priceComparison(comparison.rows, message.outputTokens, message.monthlyRequests)
+                        });
+                    }
+                }, panelDisposables);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        // Save the selection to the prompt library as is
+        let savePromptCommand = vscode.commands.registerCommand('cost-katana.save-prompt', async () => {
+            try {
+                const editor = vscode.window.activeTextEditor;
+                if (!editor || editor.selection.isEmpty) {
+                    vscode.window.showInformationMessage('Select the prompt text to save');
+                    return;
+                }
+                const text = editor.document.getText(editor.selection);
+                await savePromptToLibrary(text, text, defaultModelFor(editor.document.uri), editor.document.uri);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        let insertPromptCommand = vscode.commands.registerCommand('cost-katana.insert-prompt', async () => {
+            try {
+                const prompts = await promptLibrary.list();
+                if (prompts.length === 0) {
+                    vscode.window.showInformationMessage('Your prompt library is empty. Save a prompt from Optimize Prompt or with "Cost Katana: Save Prompt to Library".');
+                    return;
+                }
+
+                const choice = await vscode.window.showQuickPick(prompts.map(prompt => ({
+                    label: prompt.name,
+                    description: prompt.tags.map(tag => `#${tag}`).join(' '),
+                    detail: describePrompt(prompt),
+                    prompt
+                })), { placeHolder: 'Insert a saved prompt (most used first)', matchOnDescription: true });
+                if (!choice) {
+                    return;
+                }
+
+                const editor = vscode.window.activeTextEditor;
+                if (editor) {
+                    await editor.insertSnippet(toSnippet(choice.prompt.optimized));
+                } else {
+                    await vscode.env.clipboard.writeText(choice.prompt.optimized);
+                    vscode.window.showInformationMessage(`📋 "${choice.prompt.name}" copied to clipboard`);
+                }
+                await promptLibrary.recordUse(choice.prompt.id);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        // Run after a `prompt:` completion is accepted
+        let recordPromptUseCommand = vscode.commands.registerCommand('cost-katana.record-prompt-use', async (id: string) => {
+            await promptLibrary.recordUse(id);
+        });
+
+        // Diff editor title actions for a pending optimization review
+        let acceptOptimizationCommand = vscode.commands.registerCommand('cost-katana.accept-optimization', (uri?: vscode.Uri) => {
+            optimizationReview.acceptAll(uri);
+        });
+
+        let acceptOptimizationHunksCommand = vscode.commands.registerCommand('cost-katana.accept-optimization-hunks', async (uri?: vscode.Uri) => {
+            await optimizationReview.acceptHunks(uri);
+        });
+
+        let discardOptimizationCommand = vscode.commands.registerCommand('cost-katana.discard-optimization', (uri?: vscode.Uri) => {
+            optimizationReview.discard(uri);
+        });
+
+        // Quick fix target: stop flagging a model the workspace uses on purpose
+        let allowModelCommand = vscode.commands.registerCommand('cost-katana.allow-model', async (model?: string, scope?: vscode.Uri) => {
+            try {
+                const target = model || await vscode.window.showInputBox({
+                    prompt: 'Model that should not be flagged as expensive in this workspace',
+                    placeHolder: 'e.g., claude-3-opus'
+                });
+                if (target) {
+                    await allowModel(target, scope);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        // ===== SIDEBAR COMMANDS =====
+
+        let refreshActivityCommand = vscode.commands.registerCommand('cost-katana.refresh-activity', async () => {
+            await refreshSpend();
+        });
+
+        let filterActivityCommand = vscode.commands.registerCommand('cost-katana.filter-activity', async () => {
+            const filterText = await vscode.window.showInputBox({
+                prompt: 'Filter recent activity by model, file or prompt',
+                value: activityProvider.filter,
+                placeHolder: 'e.g. claude, src/api.ts'
+            });
+            if (filterText !== undefined) {
+                activityProvider.setFilter(filterText);
+            }
+        });
+
+        let clearActivityFilterCommand = vscode.commands.registerCommand('cost-katana.clear-activity-filter', () => {
+            activityProvider.setFilter(undefined);
+        });
+
+        let reoptimizeCommand = vscode.commands.registerCommand('cost-katana.reoptimize', async (item?: ActivityItem) => {
+            if (!item?.activity.prompt) {
+                return;
+            }
+            await runOptimization(item.activity.prompt, undefined);
+        });
+
+        let openItemFileCommand = vscode.commands.registerCommand('cost-katana.open-item-file', async (item?: ActivityItem | SuggestionItem) => {
+            if (!item?.filePath) {
+                return;
+            }
+            try {
+                const document = await vscode.workspace.openTextDocument(item.filePath);
+                await vscode.window.showTextDocument(document);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Could not open ${item.filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        let refreshProjectsCommand = vscode.commands.registerCommand('cost-katana.refresh-projects', () => {
+            projectsProvider.refresh();
+        });
+
+        // Create a backend project and optionally bind a workspace folder to it
+        const createProject = async (): Promise<BoundProject | undefined> => {
+            const name = await vscode.window.showInputBox({
+                prompt: 'Enter a name for the new project',
+                value: resolveWorkspaceFolder(vscode.window.activeTextEditor?.document.uri)?.name,
+                placeHolder: 'My Project'
+            });
+            if (!name) {
+                return undefined;
+            }
+
+            const description = await vscode.window.showInputBox({
+                prompt: 'Enter a description (optional)',
+                placeHolder: 'What is this project about?'
+            });
+            if (description === undefined) {
+                return undefined;
+            }
+
+            const result = await api.createProject({ name, description: description || undefined });
+            if (!result.success || !result.data) {
+                vscode.window.showErrorMessage(`Failed to create project: ${result.error}`);
+                return undefined;
+            }
+
+            projectsProvider.refresh();
+            return { id: result.data.project_id, name: result.data.project_name };
+        };
+
+        const bindProject = async (project: BoundProject, folder?: vscode.WorkspaceFolder) => {
+            const target = folder || await pickWorkspaceFolder(`Bind "${project.name}" to which folder?`);
+            if (!target) {
+                return;
+            }
+            await projectBindings.set(target, project);
+
+            // A committed project file would keep overriding the local binding
+            const pinned = projectConfigs.resolve(target.uri);
+            if (pinned.configUri && pinned.projectId && pinned.projectId !== project.id) {
+                const action = await vscode.window.showWarningMessage(
+                    `📁 "${target.name}" has a ${PROJECT_CONFIG_FILE} pinning project "${pinned.projectName || pinned.projectId}", which takes precedence.`,
+                    `Update ${PROJECT_CONFIG_FILE}`
+                );
+                if (action) {
+                    await saveProjectFile(target, project);
+                }
+                return;
+            }
+            vscode.window.showInformationMessage(`📁 Usage in "${target.name}" is now attributed to "${project.name}"`);
+        };
+
+        const saveProjectFile = async (folder: vscode.WorkspaceFolder, project: BoundProject) => {
+            const uri = await projectConfigs.writeProject(folder, project);
+            const document = await vscode.workspace.openTextDocument(uri);
+            await vscode.window.showTextDocument(document);
+        };
+
+        // Write the folder's current project into a committed .costkatana.json
+        let createProjectFileCommand = vscode.commands.registerCommand('cost-katana.create-project-file', async () => {
+            try {
+                const folder = await pickWorkspaceFolder(`Create ${PROJECT_CONFIG_FILE} in which folder?`);
+                if (!folder) {
+                    return;
+                }
+
+                const current = projectConfigs.resolve(folder.uri);
+                if (!current.projectId) {
+                    const action = await vscode.window.showWarningMessage(
+                        `"${folder.name}" is not attributed to a project yet.`,
+                        'Select Project'
+                    );
+                    if (action) {
+                        vscode.commands.executeCommand('cost-katana.select-project');
+                    }
+                    return;
+                }
+
+                await saveProjectFile(folder, { id: current.projectId, name: current.projectName || current.projectId });
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        let createProjectCommand = vscode.commands.registerCommand('cost-katana.create-project', async () => {
+            try {
+                const project = await createProject();
+                if (!project) {
+                    return;
+                }
+
+                if (!vscode.workspace.workspaceFolders?.length) {
+                    vscode.window.showInformationMessage(`✅ Project "${project.name}" created`);
+                    return;
+                }
+
+                const action = await vscode.window.showInformationMessage(
+                    `✅ Project "${project.name}" created`,
+                    'Use for This Folder'
+                );
+                if (action === 'Use for This Folder') {
+                    await bindProject(project);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        let selectProjectCommand = vscode.commands.registerCommand('cost-katana.select-project', async () => {
+            try {
+                const folder = await pickWorkspaceFolder('Select the folder to bind a project to');
+                if (!folder) {
+                    return;
+                }
+
+                const result = await vscode.window.withProgress({
+                    location: vscode.ProgressLocation.Notification,
+                    title: 'Loading projects...'
+                }, () => api.getProjects());
+
+                if (!result.success || !result.data) {
+                    vscode.window.showErrorMessage(`Failed to load projects: ${result.error}`);
+                    return;
+                }
+
+                const current = projectBindings.get(folder);
+                type ProjectPick = vscode.QuickPickItem & { project?: BoundProject; action?: 'create' | 'unbind' };
+                const items: ProjectPick[] = [
+                    ...result.data.projects.map(project => ({
+                        label: project.name,
+                        description: project.id === current?.id ? 'current' : undefined,
+                        detail: project.description || undefined,
+                        project: { id: project.id, name: project.name }
+                    })),
+                    { label: '', kind: vscode.QuickPickItemKind.Separator },
+                    { label: '$(add) Create New Project...', action: 'create' }
+                ];
+                if (current) {
+                    items.push({ label: '$(close) Remove Project Binding', action: 'unbind' });
+                }
+
+                const choice = await vscode.window.showQuickPick(items, {
+                    placeHolder: `Project for "${folder.name}"`,
+                    matchOnDetail: true
+                });
+                if (!choice) {
+                    return;
+                }
+
+                if (choice.action === 'unbind') {
+                    await projectBindings.set(folder, undefined);
+                    vscode.window.showInformationMessage(`📁 "${folder.name}" is no longer bound to a project`);
+                    return;
+                }
+
+                const project = choice.action === 'create' ? await createProject() : choice.project;
+                if (project) {
+                    await bindProject(project, folder);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        });
+
+        let switchProjectCommand = vscode.commands.registerCommand('cost-katana.switch-project', async (item?: ProjectItem) => {
+            if (!item) {
+                return;
+            }
+            await bindProject({ id: item.project.id, name: item.project.name });
+        });
+
+        let refreshSuggestionsCommand = vscode.commands.registerCommand('cost-katana.refresh-suggestions', async () => {
+            const sourceFile = suggestionsProvider.sourceFile;
+            if (sourceFile) {
+                const document = await vscode.workspace.openTextDocument(sourceFile);
+                await vscode.window.showTextDocument(document);
+            }
+            await vscode.commands.executeCommand('cost-katana.get-suggestions');
+        });
+
+        // Register all commands
+        context.subscriptions.push(
+            connectAccountCommand,
+            trackUsageCommand,
+            optimizePromptCommand,
+            showAnalyticsCommand,
+            setupWorkspaceCommand,
+            getSuggestionsCommand,
+            analyzeCodeCommand,
+            getModelRecommendationsCommand,
+            toggleAutomaticTrackingCommand,
+            configureExtensionCommand,
+            testCommand,
+            healthCheckCommand,
+            signOutCommand,
+            rotateKeyCommand,
+            refreshPricingCommand,
+            snoozeBudgetAlertsCommand,
+            showUsageHistoryCommand,
+            branchCostReportCommand,
+            prCostSummaryCommand,
+            allowModelCommand,
+            acceptOptimizationCommand,
+            acceptOptimizationHunksCommand,
+            discardOptimizationCommand,
+            compareModelsCommand,
+            savePromptCommand,
+            insertPromptCommand,
+            recordPromptUseCommand,
+            refreshActivityCommand,
+            filterActivityCommand,
+            clearActivityFilterCommand,
+            reoptimizeCommand,
+            openItemFileCommand,
+            refreshProjectsCommand,
+            createProjectCommand,
+            selectProjectCommand,
+            switchProjectCommand,
+            createProjectFileCommand,
+            refreshSuggestionsCommand,
+            cursorAIListener,
+            documentChangeListener,
+            cursorAutoModeListener,
+            cursorInlineSuggestionsListener,
+            cursorChatListener,
+            cursorExplainListener
+        );
+
+        // Start real-time tracking
+        context.subscriptions.push(api.startRealTimeTracking(applySpend));
+
+        // Show welcome message
+        vscode.window.showInformationMessage(
+            '🚀 Cost Katana AI Optimizer activated! Use "Cost Katana: Connect Account" to get started.',
+            'Connect Account'
+        ).then(selection => {
+            if (selection === 'Connect Account') {
+                vscode.commands.executeCommand('cost-katana.connect-account');
+            }
+        });
+    } catch (error) {
+        console.error('Error initializing Cost Katana API:', error);
+        vscode.window.showErrorMessage(`Failed to initialize Cost Katana API: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+// Shown in the analytics panel while data loads
+function getLoadingPage(): WebviewPage {
+    return {
+        title: 'Cost Katana Analytics',
+        styles: `
+            body {
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+                padding: 20px;
+                background: var(--vscode-editor-background);
+                color: var(--vscode-editor-foreground);
+                margin: 0;
+            }
+            .loading { text-align: center; padding: 50px; }
+            .spinner {
+                border: 4px solid var(--vscode-panel-border);
+                border-top: 4px solid var(--vscode-progressBar-background);
+                border-radius: 50%;
+                width: 40px;
+                height: 40px;
+                animation: spin 1s linear infinite;
+                margin: 0 auto 20px;
+            }
+            @keyframes spin {
+                0% { transform: rotate(0deg); }
+                100% { transform: rotate(360deg); }
+            }
+        `,
+        body: `
+            <div class="loading">
+                <div class="spinner"></div>
+                <p>Loading analytics data...</p>
+            </div>
+        `
+    };
+}
+
+function getErrorPage(error: string): WebviewPage {
+    return {
+        title: 'Analytics Error',
+        styles: `
+            body {
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+                padding: 20px;
+                background: var(--vscode-editor-background);
+                color: var(--vscode-editor-foreground);
+            }
+            button {
+                background: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+                border: none;
+                padding: 8px 16px;
+                border-radius: 4px;
+                cursor: pointer;
+            }
+        `,
+        body: `
+            <h2>❌ Failed to Load Analytics</h2>
+            <p>Error: ${escapeHtml(error)}</p>
+            <button data-command="retry">🔄 Retry</button>
+        `,
+        interactive: true
+    };
 }
 
-function getAnalyticsHtml(summary: any, cursorSpecific: any, enableRealTime: boolean = false): string {
-    return `
-        <!DOCTYPE html>
-        <html lang="en">
-        <head>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            <title>Cost Katana Analytics</title>
-            <style>
-                * {
-                    margin: 0;
-                    padding: 0;
-                    box-sizing: border-box;
-                }
-                
-                body {
-                    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-                    background: var(--vscode-editor-background);
-                    color: var(--vscode-editor-foreground);
-                    padding: 20px;
-                    line-height: 1.6;
-                }
-                
-                .container {
-                    max-width: 800px;
-                    margin: 0 auto;
-                }
-                
-                .header {
-                    text-align: center;
-                    margin-bottom: 30px;
-                    padding: 20px;
-                    background: var(--vscode-editor-inactiveSelectionBackground);
-                    border-radius: 8px;
-                    border: 1px solid var(--vscode-panel-border);
-                }
-                
-                .header h1 {
-                    color: var(--vscode-textLink-foreground);
-                    font-size: 24px;
-                    margin-bottom: 10px;
-                }
-                
-                .header p {
-                    color: var(--vscode-descriptionForeground);
-                    font-size: 14px;
-                }
-                
-                .stats-grid {
-                    display: grid;
-                    grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
-                    gap: 20px;
-                    margin-bottom: 30px;
-                }
-                
-                .stat-card {
-                    background: var(--vscode-editor-background);
-                    border: 1px solid var(--vscode-panel-border);
-                    border-radius: 8px;
-                    padding: 20px;
-                    text-align: center;
-                    transition: all 0.3s ease;
-                }
-                
-                .stat-card:hover {
-                    border-color: var(--vscode-textLink-foreground);
-                    transform: translateY(-2px);
-                }
-                
-                .stat-value {
-                    font-size: 32px;
-                    font-weight: bold;
-                    color: var(--vscode-textLink-foreground);
-                    margin-bottom: 8px;
-                }
-                
-                .stat-label {
-                    font-size: 14px;
-                    color: var(--vscode-descriptionForeground);
-                    text-transform: uppercase;
-                    letter-spacing: 0.5px;
-                }
-                
-                .actions-section {
-                    background: var(--vscode-editor-background);
-                    border: 1px solid var(--vscode-panel-border);
-                    border-radius: 8px;
-                    padding: 20px;
-                    margin-bottom: 20px;
-                }
-                
-                .actions-section h3 {
-                    color: var(--vscode-textLink-foreground);
-                    margin-bottom: 15px;
-                    font-size: 18px;
-                }
-                
-                .action-buttons {
-                    display: grid;
-                    grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
-                    gap: 10px;
-                }
-                
-                .action-btn {
-                    background: var(--vscode-button-background);
-                    color: var(--vscode-button-foreground);
-                    border: none;
-                    padding: 12px 20px;
-                    border-radius: 6px;
-                    cursor: pointer;
-                    font-size: 14px;
-                    font-weight: 500;
-                    transition: all 0.3s ease;
-                }
-                
-                .action-btn:hover {
-                    background: var(--vscode-button-hoverBackground);
-                    transform: translateY(-1px);
-                }
-                
-                .refresh-btn {
-                    background: var(--vscode-button-secondaryBackground);
-                    color: var(--vscode-button-secondaryForeground);
-                    border: 1px solid var(--vscode-button-secondaryBorder);
-                }
-                
-                .refresh-btn:hover {
-                    background: var(--vscode-button-secondaryHoverBackground);
-                }
-                
-                .usage-details {
-                    background: var(--vscode-editor-background);
-                    border: 1px solid var(--vscode-panel-border);
-                    border-radius: 8px;
-                    padding: 20px;
-                }
-                
-                .usage-details h3 {
-                    color: var(--vscode-textLink-foreground);
-                    margin-bottom: 15px;
-                    font-size: 18px;
-                }
-                
-                .usage-item {
-                    display: flex;
-                    justify-content: space-between;
-                    align-items: center;
-                    padding: 10px 0;
-                    border-bottom: 1px solid var(--vscode-panel-border);
-                }
-                
-                .usage-item:last-child {
-                    border-bottom: none;
-                }
-                
-                .usage-label {
-                    font-weight: 500;
-                }
-                
-                .usage-value {
-                    color: var(--vscode-textLink-foreground);
-                    font-weight: bold;
-                }
-                
-                .footer {
-                    text-align: center;
-                    margin-top: 30px;
-                    padding: 20px;
-                    color: var(--vscode-descriptionForeground);
-                    font-size: 12px;
-                }
-            </style>
-        </head>
-        <body>
+// Month-to-date ledger aggregates shown when the backend is unreachable
+interface LocalHistory {
+    byDay: LedgerBucket[];
+    byModel: LedgerBucket[];
+}
+
+function getAnalyticsPage(summary: any, cursorSpecific: any, enableRealTime: boolean = false, localHistory?: LocalHistory, forecast?: SpendForecast): WebviewPage {
+    return {
+        title: 'Cost Katana Analytics',
+        styles: `
+            * {
+                margin: 0;
+                padding: 0;
+                box-sizing: border-box;
+            }
+
+            body {
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+                background: var(--vscode-editor-background);
+                color: var(--vscode-editor-foreground);
+                padding: 20px;
+                line-height: 1.6;
+            }
+
+            .container {
+                max-width: 800px;
+                margin: 0 auto;
+            }
+
+            .header {
+                text-align: center;
+                margin-bottom: 30px;
+                padding: 20px;
+                background: var(--vscode-editor-inactiveSelectionBackground);
+                border-radius: 8px;
+                border: 1px solid var(--vscode-panel-border);
+            }
+
+            .header h1 {
+                color: var(--vscode-textLink-foreground);
+                font-size: 24px;
+                margin-bottom: 10px;
+            }
+
+            .header p {
+                color: var(--vscode-descriptionForeground);
+                font-size: 14px;
+            }
+
+            .stats-grid {
+                display: grid;
+                grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
+                gap: 20px;
+                margin-bottom: 30px;
+            }
+
+            .stat-card {
+                background: var(--vscode-editor-background);
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 8px;
+                padding: 20px;
+                text-align: center;
+                transition: all 0.3s ease;
+            }
+
+            .stat-card:hover {
+                border-color: var(--vscode-textLink-foreground);
+                transform: translateY(-2px);
+            }
+
+            .stat-value {
+                font-size: 32px;
+                font-weight: bold;
+                color: var(--vscode-textLink-foreground);
+                margin-bottom: 8px;
+            }
+
+            .stat-label {
+                font-size: 14px;
+                color: var(--vscode-descriptionForeground);
+                text-transform: uppercase;
+                letter-spacing: 0.5px;
+            }
+
+            .actions-section {
+                background: var(--vscode-editor-background);
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 8px;
+                padding: 20px;
+                margin-bottom: 20px;
+            }
+
+            .actions-section h3 {
+                color: var(--vscode-textLink-foreground);
+                margin-bottom: 15px;
+                font-size: 18px;
+            }
+
+            .action-buttons {
+                display: grid;
+                grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+                gap: 10px;
+            }
+
+            .action-btn {
+                background: var(--vscode-button-background);
+                color: var(--vscode-button-foreground);
+                border: none;
+                padding: 12px 20px;
+                border-radius: 6px;
+                cursor: pointer;
+                font-size: 14px;
+                font-weight: 500;
+                transition: all 0.3s ease;
+            }
+
+            .action-btn:hover {
+                background: var(--vscode-button-hoverBackground);
+                transform: translateY(-1px);
+            }
+
+            .refresh-btn {
+                background: var(--vscode-button-secondaryBackground);
+                color: var(--vscode-button-secondaryForeground);
+                border: 1px solid var(--vscode-button-secondaryBorder);
+            }
+
+            .refresh-btn:hover {
+                background: var(--vscode-button-secondaryHoverBackground);
+            }
+
+            .usage-details {
+                background: var(--vscode-editor-background);
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 8px;
+                padding: 20px;
+            }
+
+            .usage-details h3 {
+                color: var(--vscode-textLink-foreground);
+                margin-bottom: 15px;
+                font-size: 18px;
+            }
+
+            .usage-item {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+                padding: 10px 0;
+                border-bottom: 1px solid var(--vscode-panel-border);
+            }
+
+            .usage-item:last-child {
+                border-bottom: none;
+            }
+
+            .usage-label {
+                font-weight: 500;
+            }
+
+            .usage-value {
+                color: var(--vscode-textLink-foreground);
+                font-weight: bold;
+            }
+
+            .offline-banner {
+                margin-bottom: 20px;
+                padding: 12px 16px;
+                border-radius: 6px;
+                background: var(--vscode-inputValidation-warningBackground);
+                border: 1px solid var(--vscode-inputValidation-warningBorder);
+            }
+
+            .local-history {
+                margin-top: 20px;
+            }
+
+            .forecast {
+                margin-bottom: 20px;
+            }
+
+            .forecast-chart {
+                width: 100%;
+                height: auto;
+                margin-bottom: 10px;
+            }
+
+            .forecast-chart .actual {
+                fill: none;
+                stroke: var(--vscode-textLink-foreground);
+                stroke-width: 2;
+            }
+
+            .forecast-chart .projected {
+                fill: none;
+                stroke: var(--vscode-textLink-foreground);
+                stroke-width: 2;
+                stroke-dasharray: 6 4;
+            }
+
+            .forecast-chart .band {
+                fill: var(--vscode-textLink-foreground);
+                opacity: 0.15;
+            }
+
+            .forecast-chart .budget {
+                stroke: var(--vscode-errorForeground);
+                stroke-dasharray: 2 3;
+            }
+
+            .forecast-chart .axis {
+                stroke: var(--vscode-panel-border);
+            }
+
+            .forecast-chart text {
+                fill: var(--vscode-descriptionForeground);
+                font-size: 11px;
+            }
+
+            .forecast-warning {
+                color: var(--vscode-errorForeground);
+                font-weight: bold;
+            }
+
+            .forecast-note {
+                color: var(--vscode-descriptionForeground);
+                font-size: 12px;
+                margin-top: 10px;
+            }
+
+            .footer {
+                text-align: center;
+                margin-top: 30px;
+                padding: 20px;
+                color: var(--vscode-descriptionForeground);
+                font-size: 12px;
+            }
+
+            .live-indicator {
+                color: var(--vscode-testing-iconPassed);
+                font-size: 12px;
+            }
+
+            .update-notification {
+                position: fixed;
+                top: 20px;
+                right: 20px;
+                background: var(--vscode-notifications-background);
+                color: var(--vscode-notifications-foreground);
+                border: 1px solid var(--vscode-notifications-border, var(--vscode-panel-border));
+                padding: 10px 20px;
+                border-radius: 5px;
+                opacity: 0;
+                pointer-events: none;
+                transition: opacity 0.3s;
+                z-index: 1000;
+            }
+
+            .update-notification.visible {
+                opacity: 1;
+            }
+
+            .last-updated {
+                font-size: 12px;
+                margin-top: 5px;
+            }
+        `,
+        body: `
             <div class="container">
                 <div class="header">
-                    <h1>🚀 Cost Katana Analytics</h1>
+                    <h1>🚀 Cost Katana Analytics${enableRealTime ? ' <span class="live-indicator">● LIVE</span>' : ''}</h1>
                     <p>AI Cost Optimization Dashboard</p>
                 </div>
-                
+
+                ${localHistory ? `
+                <div class="offline-banner" id="offline-banner">
+                    📴 Backend unreachable. Showing usage tracked on this machine this month.
+                </div>` : ''}
+
                 <div class="stats-grid">
                     <div class="stat-card">
-                        <div class="stat-value">$${summary.total_spending_this_month || '0.00'}</div>
+                        <div class="stat-value">$${escapeHtml(summary.total_spending_this_month || '0.00')}</div>
                         <div class="stat-label">Monthly Spending</div>
                     </div>
                     <div class="stat-card">
-                        <div class="stat-value">${summary.budget_used || '0%'}</div>
+                        <div class="stat-value">${escapeHtml(summary.budget_used || '0%')}</div>
                         <div class="stat-label">Budget Used</div>
                     </div>
                     <div class="stat-card">
-                        <div class="stat-value">${summary.active_projects || '0'}</div>
+                        <div class="stat-value">${escapeHtml(summary.active_projects || '0')}</div>
                         <div class="stat-label">Active Projects</div>
                     </div>
                     <div class="stat-card">
-                        <div class="stat-value">${cursorSpecific.total_requests || '0'}</div>
+                        <div class="stat-value">${escapeHtml(cursorSpecific.total_requests || '0')}</div>
                         <div class="stat-label">Total Requests</div>
                     </div>
                 </div>
-                
-                <div class="usage-details">
+
+                <div class="usage-details forecast" id="forecast">
+                    <h3>📈 Spend Forecast</h3>
+                    ${forecast ? getForecastHtml(forecast) : '<p>A forecast appears once a week of usage has been tracked on this machine.</p>'}
+                </div>
+
+                <div class="usage-details cursor-usage">
                     <h3>🤖 Cursor Usage Details</h3>
                     <div class="usage-item">
                         <span class="usage-label">Total Requests</span>
-                        <span class="usage-value">${cursorSpecific.total_requests || '0'}</span>
+                        <span class="usage-value">${escapeHtml(cursorSpecific.total_requests || '0')}</span>
                     </div>
                     <div class="usage-item">
                         <span class="usage-label">Average Tokens per Request</span>
-                        <span class="usage-value">${cursorSpecific.average_tokens_per_request || '0'}</span>
+                        <span class="usage-value">${escapeHtml(cursorSpecific.average_tokens_per_request || '0')}</span>
                     </div>
                 </div>
-                
+
+                ${localHistory ? `
+                <div class="usage-details local-history" id="local-history">
+                    <h3>📒 Local History by Model</h3>
+                    ${localHistory.byModel.map(bucket => `
+                    <div class="usage-item">
+                        <span class="usage-label">${escapeHtml(bucket.key)} (${bucket.requests} requests, ${bucket.tokens} tokens)</span>
+                        <span class="usage-value">${formatCost(bucket.cost)}</span>
+                    </div>`).join('') || '<p>No usage recorded this month</p>'}
+                </div>
+
+                <div class="usage-details local-history" id="local-history-days">
+                    <h3>📅 Local History by Day</h3>
+                    ${localHistory.byDay.map(bucket => `
+                    <div class="usage-item">
+                        <span class="usage-label">${escapeHtml(bucket.key)} (${bucket.requests} requests)</span>
+                        <span class="usage-value">${formatCost(bucket.cost)}</span>
+                    </div>`).join('') || '<p>No usage recorded this month</p>'}
+                </div>` : ''}
+
                 <div class="actions-section">
                     <h3>💡 Quick Actions</h3>
                     <div class="action-buttons">
-                        <button class="action-btn" onclick="trackUsage()">📊 Track Usage</button>
-                        <button class="action-btn" onclick="optimizePrompt()">⚡ Optimize Prompt</button>
-                        <button class="action-btn" onclick="getTips()">💡 Get Tips</button>
-                        <button class="action-btn refresh-btn" onclick="refresh()">🔄 Refresh</button>
+                        <button class="action-btn" data-command="trackUsage">📊 Track Usage</button>
+                        <button class="action-btn" data-command="optimizePrompt">⚡ Optimize Prompt</button>
+                        <button class="action-btn" data-command="getTips">💡 Get Tips</button>
+                        <button class="action-btn refresh-btn" data-command="refresh">🔄 Refresh</button>
                     </div>
                 </div>
-                
-                <div id="update-notification" style="
-                    position: fixed;
-                    top: 20px;
-                    right: 20px;
-                    background: #4CAF50;
-                    color: white;
-                    padding: 10px 20px;
-                    border-radius: 5px;
-                    display: none;
-                    opacity: 0;
-                    transition: opacity 0.3s;
-                    z-index: 1000;
-                ">
+
+                <div id="update-notification" class="update-notification">
                     📊 Data updated!
                 </div>
-                
+
                 <div class="footer">
                     <p>Cost Katana AI Optimizer v1.0.15 • Powered by AI Cost Optimization</p>
-                    <p id="last-updated" style="font-size: 12px; color: #888; margin-top: 5px;">
+                    <p id="last-updated" class="last-updated">
                         Last updated: ${new Date().toLocaleTimeString()}
                     </p>
-                    ${enableRealTime ? '<p style="font-size: 12px; color: #00ff00;">● Real-time updates enabled</p>' : ''}
+                    ${enableRealTime ? '<p class="live-indicator">● Real-time updates enabled</p>' : ''}
                 </div>
             </div>
-            
-            <script>
-                const vscode = acquireVsCodeApi();
-                let realTimeEnabled = ${enableRealTime};
-                
-                // Listen for messages from extension
-                window.addEventListener('message', event => {
-                    const message = event.data;
-                    switch (message.command) {
-                        case 'updateData':
-                            updateAnalyticsDisplay(message.data);
-                            showUpdateNotification();
-                            break;
-                    }
-                });
-                
-                function updateAnalyticsDisplay(data) {
-                    const summary = data.summary;
-                    const cursorSpecific = data.cursor_specific || {};
-                    
-                    // Update stat cards
-                    const statCards = document.querySelectorAll('.stat-card .stat-value');
-                    if (statCards[0]) statCards[0].textContent = '$' + (summary.total_spending_this_month || '0.00');
-                    if (statCards[1]) statCards[1].textContent = summary.budget_used || '0%';
-                    if (statCards[2]) statCards[2].textContent = summary.active_projects || '0';
-                    if (statCards[3]) statCards[3].textContent = cursorSpecific.total_requests || '0';
-                    
-                    // Update usage details
-                    const usageValues = document.querySelectorAll('.usage-item .usage-value');
-                    if (usageValues[0]) usageValues[0].textContent = cursorSpecific.total_requests || '0';
-                    if (usageValues[1]) usageValues[1].textContent = cursorSpecific.average_tokens_per_request || '0';
-                    
-                    // Update timestamp
-                    const timestamp = document.getElementById('last-updated');
-                    if (timestamp) {
-                        timestamp.textContent = 'Last updated: ' + new Date().toLocaleTimeString();
-                    }
-                }
-                
-                function showUpdateNotification() {
-                    const notification = document.getElementById('update-notification');
-                    if (notification) {
-                        notification.style.display = 'block';
-                        notification.style.opacity = '1';
-                        setTimeout(() => {
-                            notification.style.opacity = '0';
-                            setTimeout(() => {
-                                notification.style.display = 'none';
-                            }, 300);
-                        }, 2000);
-                    }
-                }
-                
-                function trackUsage() {
-                    vscode.postMessage({ command: 'trackUsage' });
-                }
-                
-                function optimizePrompt() {
-                    vscode.postMessage({ command: 'optimizePrompt' });
-                }
-                
-                function getTips() {
-                    vscode.postMessage({ command: 'getTips' });
-                }
-                
-                function refresh() {
-                    const refreshBtn = document.querySelector('.refresh-btn');
-                    if (refreshBtn) {
-                        refreshBtn.innerHTML = '⟳ Refreshing...';
-                        refreshBtn.disabled = true;
-                    }
-                    
-                    vscode.postMessage({ command: 'refresh' });
-                    
-                    setTimeout(() => {
-                        if (refreshBtn) {
-                            refreshBtn.innerHTML = '🔄 Refresh';
-                            refreshBtn.disabled = false;
-                        }
-                    }, 1000);
-                }
-                
-                // Add visual indicators for real-time updates
-                if (realTimeEnabled) {
-                    const header = document.querySelector('h1');
-                    if (header) {
-                        header.innerHTML += ' <span style="color: #00ff00; font-size: 12px;">● LIVE</span>';
-                    }
-                }
-            </script>
-        </body>
-        </html>
-    `;
+        `,
+        script: 'analytics.js'
+    };
 }
 
-function getModelRecommendations(taskType: string, budget: string): Array<{model: string, reason: string, estimatedCost: number}> {
-    const recommendations = [];
+function getForecastHtml(forecast: SpendForecast): string {
+    const band = (period: PeriodForecast) => `${formatCost(period.low)}–${formatCost(period.high)}`;
+    const overBudget = exceedsBudget(forecast);
+    return `
+                    ${getForecastChartSvg(forecast)}
+                    <div class="usage-item">
+                        <span class="usage-label">${escapeHtml(forecast.month.label)} projected</span>
+                        <span class="usage-value">${formatCost(forecast.month.projected)} (${band(forecast.month)})</span>
+                    </div>
+                    <div class="usage-item">
+                        <span class="usage-label">${escapeHtml(forecast.quarter.label)} projected</span>
+                        <span class="usage-value">${formatCost(forecast.quarter.projected)} (${band(forecast.quarter)})</span>
+                    </div>
+                    ${forecast.budget !== undefined ? `
+                    <div class="usage-item">
+                        <span class="usage-label">Monthly budget</span>
+                        <span class="usage-value${overBudget ? ' forecast-warning' : ''}">${formatCost(forecast.budget)}${overBudget ? ' ⚠️ projected to be exceeded' : ''}</span>
+                    </div>` : ''}
+                    <div class="usage-item">
+                        <span class="usage-label">Average per weekday / weekend day</span>
+                        <span class="usage-value">${formatCost(forecast.weekdayAverage)} / ${formatCost(forecast.weekendAverage)}</span>
+                    </div>
+                    <p class="forecast-note">Projected from ${forecast.observedDays} days of usage tracked on this machine${forecast.untracked > 0 ? `, on top of the ${formatCost(forecast.month.actual)} the backend reports for ${escapeHtml(forecast.month.label)}` : ''}. Ranges cover ${Math.round(forecast.confidence * 100)}% of likely outcomes.</p>`;
+}
 
-    if (budget.includes('Low cost')) {
-        if (taskType.includes('Simple')) {
-            recommendations.push(
-                { model: 'gpt-4o-mini', reason: 'Fast and cost-effective for simple tasks', estimatedCost: 0.0001 },
-                { model: 'claude-3.5-haiku', reason: 'Great for basic code generation', estimatedCost: 0.0002 },
-                { model: 'gemini-2.5-flash', reason: 'Very fast and cheap', estimatedCost: 0.0001 }
-            );
-        } else {
-            recommendations.push(
-                { model: 'gpt-3.5-turbo', reason: 'Good balance of cost and quality', estimatedCost: 0.001 },
-                { model: 'deepseek-v3.1', reason: 'Excellent for coding tasks', estimatedCost: 0.0005 }
-            );
-        }
-    } else if (budget.includes('Medium cost')) {
-        recommendations.push(
-            { model: 'gpt-4o', reason: 'Best overall performance', estimatedCost: 0.01 },
-            { model: 'claude-3.5-sonnet', reason: 'Excellent reasoning capabilities', estimatedCost: 0.02 },
-            { model: 'gemini-2.5-pro', reason: 'Great for complex tasks', estimatedCost: 0.015 }
-        );
-    } else {
-        recommendations.push(
-            { model: 'claude-4-opus', reason: 'Best reasoning and analysis', estimatedCost: 0.05 },
-            { model: 'gpt-4.1', reason: 'Most capable model', estimatedCost: 0.04 },
-            { model: 'o1', reason: 'Advanced reasoning for complex problems', estimatedCost: 0.06 }
-        );
-    }
+// Cumulative spend this month: tracked line to today, then the projection with its band
+function getForecastChartSvg(forecast: SpendForecast): string {
+    const width = 760;
+    const height = 220;
+    const pad = { top: 16, right: 16, bottom: 24, left: 56 };
+    const points = forecast.path;
+    const maxValue = Math.max(...points.map(point => point.high), forecast.budget ?? 0) || 1;
+    const x = (index: number) => pad.left + (index / Math.max(points.length - 1, 1)) * (width - pad.left - pad.right);
+    const y = (value: number) => height - pad.bottom - (value / maxValue) * (height - pad.top - pad.bottom);
+    const line = (indices: number[], value: (index: number) => number) =>
+        indices.map(index => `${x(index).toFixed(1)},${y(value(index)).toFixed(1)}`).join(' ');
+
+    const indices = points.map((_point, index) => index);
+    const todayIndex = Math.max(points.findIndex(point => point.projected) - 1, -1);
+    const actual = todayIndex >= 0 ? indices.slice(0, todayIndex + 1) : indices;
+    // The projection starts from today's tracked total so the two lines join
+    const projected = todayIndex >= 0 ? indices.slice(todayIndex) : [];
+    const budgetLine = forecast.budget !== undefined && forecast.budget > 0
+        ? `<line class="budget" x1="${pad.left}" x2="${width - pad.right}" y1="${y(forecast.budget).toFixed(1)}" y2="${y(forecast.budget).toFixed(1)}"></line>
+            <text x="${width - pad.right}" y="${(y(forecast.budget) - 4).toFixed(1)}" text-anchor="end">Budget ${formatCost(forecast.budget)}</text>`
+        : '';
 
-    return recommendations;
+    return `
+                    <svg class="forecast-chart" viewBox="0 0 ${width} ${height}" role="img" aria-label="Cumulative spend and month-end forecast">
+                        <line class="axis" x1="${pad.left}" x2="${width - pad.right}" y1="${height - pad.bottom}" y2="${height - pad.bottom}"></line>
+                        <text x="${pad.left - 6}" y="${pad.top + 4}" text-anchor="end">${formatCost(maxValue)}</text>
+                        <text x="${pad.left - 6}" y="${height - pad.bottom}" text-anchor="end">$0</text>
+                        ${projected.length > 1 ? `
+                        <polygon class="band" points="${line(projected, index => points[index].high)} ${line([...projected].reverse(), index => points[index].low)}"></polygon>
+                        <polyline class="projected" points="${line(projected, index => points[index].expected)}"></polyline>` : ''}
+                        <polyline class="actual" points="${line(actual, index => points[index].expected)}"></polyline>
+                        ${budgetLine}
+                        <text x="${pad.left}" y="${height - 6}">${points[0].date}</text>
+                        ${todayIndex > 0 && todayIndex < points.length - 1 ? `<text x="${x(todayIndex).toFixed(1)}" y="${height - 6}" text-anchor="middle">Today</text>` : ''}
+                        <text x="${width - pad.right}" y="${height - 6}" text-anchor="end">${points[points.length - 1].date}</text>
+                    </svg>`;
 }
 
-    // Function to generate HTML for optimization details
-    function getOptimizationDetailsHtml(data: any): string {
-        return `
-            <!DOCTYPE html>
-            <html lang="en">
-            <head>
-                <meta charset="UTF-8">
-                <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                <title>Optimization Details</title>
-                <style>
-                    body {
-                        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-                        background: var(--vscode-editor-background);
-                        color: var(--vscode-editor-foreground);
-                        padding: 20px;
-                        line-height: 1.6;
-                    }
-                    
-                    .container {
-                        max-width: 800px;
-                        margin: 0 auto;
-                    }
-                    
-                    .header {
-                        margin-bottom: 30px;
-                    }
-                    
-                    .header h1 {
-                        color: var(--vscode-textLink-foreground);
-                        font-size: 24px;
-                        margin-bottom: 10px;
-                    }
-                    
-                    .stats {
-                        display: grid;
-                        grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
-                        gap: 20px;
-                        margin-bottom: 30px;
-                    }
-                    
-                    .stat-card {
-                        background: var(--vscode-editor-background);
-                        border: 1px solid var(--vscode-panel-border);
-                        border-radius: 8px;
-                        padding: 20px;
-                    }
-                    
-                    .stat-value {
-                        font-size: 24px;
-                        font-weight: bold;
-                        color: var(--vscode-textLink-foreground);
-                        margin-bottom: 8px;
-                    }
-                    
-                    .stat-label {
-                        font-size: 14px;
-                        color: var(--vscode-descriptionForeground);
-                    }
-                    
-                    .code-section {
-                        margin-top: 30px;
-                    }
-                    
-                    .code-section h2 {
-                        color: var(--vscode-textLink-foreground);
-                        margin-bottom: 15px;
-                    }
-                    
-                    .code-block {
-                        background: var(--vscode-editor-background);
-                        border: 1px solid var(--vscode-panel-border);
-                        border-radius: 8px;
-                        padding: 20px;
-                        font-family: 'Courier New', monospace;
-                        white-space: pre-wrap;
-                        overflow-x: auto;
-                    }
-                </style>
-            </head>
-            <body>
-                <div class="container">
-                    <div class="header">
-                        <h1>✨ Optimization Results</h1>
-                    </div>
-                    
-                    <div class="stats">
-                        <div class="stat-card">
-                            <div class="stat-value">${data.token_reduction}%</div>
-                            <div class="stat-label">Token Reduction</div>
-                        </div>
-                        <div class="stat-card">
-                            <div class="stat-value">${data.original_tokens}</div>
-                            <div class="stat-label">Original Tokens</div>
-                        </div>
-                        <div class="stat-card">
-                            <div class="stat-value">${data.optimized_tokens}</div>
-                            <div class="stat-label">Optimized Tokens</div>
-                        </div>
-                        <div class="stat-card">
-                            <div class="stat-value">$${data.cost_savings}</div>
-                            <div class="stat-label">Cost Savings</div>
-                        </div>
-                    </div>
-                    
-                    <div class="code-section">
-                        <h2>Original Prompt</h2>
-                        <div class="code-block">${data.original_prompt}</div>
-                    </div>
-                    
-                    <div class="code-section">
-                        <h2>Optimized Prompt</h2>
-                        <div class="code-block">${data.optimized_prompt}</div>
-                    </div>
+// Sortable cost table; media/compareModels.js asks for new prices when output size or volume change
+function getModelComparisonPage(comparison: ModelComparison, preview: string): WebviewPage {
+    return {
+        title: 'Compare Models',
+        styles: `
+            body {
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+                background: var(--vscode-editor-background);
+                color: var(--vscode-editor-foreground);
+                padding: 20px;
+                line-height: 1.6;
+            }
+
+            h1 {
+                color: var(--vscode-textLink-foreground);
+                font-size: 22px;
+                margin-bottom: 6px;
+            }
+
+            .preview {
+                color: var(--vscode-descriptionForeground);
+                font-size: 12px;
+                white-space: pre-wrap;
+                max-height: 60px;
+                overflow: hidden;
+                margin-bottom: 16px;
+            }
+
+            .controls {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 20px;
+                margin-bottom: 16px;
+            }
+
+            .controls label {
+                display: flex;
+                flex-direction: column;
+                font-size: 12px;
+                color: var(--vscode-descriptionForeground);
+            }
+
+            .controls input {
+                width: 140px;
+                margin-top: 4px;
+                padding: 4px 6px;
+                background: var(--vscode-input-background);
+                color: var(--vscode-input-foreground);
+                border: 1px solid var(--vscode-input-border, transparent);
+            }
+
+            table {
+                width: 100%;
+                border-collapse: collapse;
+                font-size: 13px;
+            }
+
+            th, td {
+                padding: 6px 10px;
+                border-bottom: 1px solid var(--vscode-panel-border);
+                text-align: left;
+            }
+
+            th {
+                cursor: pointer;
+                user-select: none;
+                white-space: nowrap;
+            }
+
+            th.sorted-asc::after { content: ' ▲'; }
+            th.sorted-desc::after { content: ' ▼'; }
+
+            td.number, th.number {
+                text-align: right;
+                font-variant-numeric: tabular-nums;
+            }
+
+            tr.exceeded td {
+                color: var(--vscode-disabledForeground);
+            }
+
+            .warning {
+                color: var(--vscode-editorWarning-foreground);
+            }
+
+            .error {
+                color: var(--vscode-errorForeground);
+            }
+        `,
+        body: `
+            <h1>⚖️ Compare Models</h1>
+            <div class="preview">${escapeHtml(preview)}</div>
+
+            <div class="controls">
+                <label>Expected output tokens
+                    <input id="output-tokens" type="number" min="0" value="${comparison.outputTokens}">
+                    <span>${escapeHtml(comparison.outputSource)}</span>
+                </label>
+                <label>Requests per month
+                    <input id="monthly-requests" type="number" min="0" value="${comparison.monthlyRequests}">
+                    <span>${escapeHtml(comparison.volumeSource)}</span>
+                </label>
+                <label>Filter
+                    <input id="filter" type="text" placeholder="model, provider or tier">
+                </label>
+            </div>
+
+            <table>
+                <thead>
+                    <tr>
+                        <th data-key="model">Model</th>
+                        <th data-key="provider">Provider</th>
+                        <th data-key="tier">Tier</th>
+                        <th data-key="inputTokens" class="number">Input Tokens</th>
+                        <th data-key="perCall" class="number">Per Call</th>
+                        <th data-key="perThousand" class="number">Per 1k Calls</th>
+                        <th data-key="perMonth" class="number">Per Month</th>
+                        <th data-key="contextWindow" class="number">Context</th>
+                    </tr>
+                </thead>
+                <tbody id="rows"></tbody>
+            </table>
+        `,
+        script: 'compareModels.js',
+        data: { rows: comparison.rows, prices: priceComparison(comparison.rows, comparison.outputTokens, comparison.monthlyRequests) }
+    };
+}
+
+// Code suggestions with the analyzed code; static, so the panel runs no scripts
+function getSuggestionsPage(suggestions: Suggestion[], code: string): WebviewPage {
+    // Priorities come from the backend, so only known ones map to a style
+    const priorityClass = (priority: string) => {
+        const level = String(priority).toLowerCase();
+        return ['high', 'medium', 'low'].includes(level) ? level : 'low';
+    };
+    return {
+        title: 'Code Suggestions',
+        styles: `
+            body {
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+                background: var(--vscode-editor-background);
+                color: var(--vscode-editor-foreground);
+                padding: 20px;
+                line-height: 1.6;
+            }
+
+            .container {
+                max-width: 800px;
+                margin: 0 auto;
+            }
+
+            .header {
+                margin-bottom: 30px;
+            }
+
+            .header h1 {
+                color: var(--vscode-textLink-foreground);
+                font-size: 24px;
+                margin-bottom: 10px;
+            }
+
+            .suggestion-card {
+                background: var(--vscode-editor-background);
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 8px;
+                padding: 20px;
+                margin-bottom: 20px;
+            }
+
+            .suggestion-title {
+                color: var(--vscode-textLink-foreground);
+                font-size: 18px;
+                font-weight: bold;
+                margin-bottom: 10px;
+            }
+
+            .suggestion-description {
+                color: var(--vscode-editor-foreground);
+                margin-bottom: 15px;
+            }
+
+            .suggestion-priority {
+                display: inline-block;
+                padding: 4px 8px;
+                border-radius: 4px;
+                font-size: 12px;
+                font-weight: 500;
+            }
+
+            .priority-high {
+                background: var(--vscode-errorForeground);
+                color: var(--vscode-editor-background);
+            }
+
+            .priority-medium {
+                background: var(--vscode-warningForeground);
+                color: var(--vscode-editor-background);
+            }
+
+            .priority-low {
+                background: var(--vscode-notificationsInfoIcon-foreground);
+                color: var(--vscode-editor-background);
+            }
+
+            .code-section {
+                margin-top: 30px;
+            }
+
+            .code-section h2 {
+                color: var(--vscode-textLink-foreground);
+                margin-bottom: 15px;
+            }
+
+            .code-block {
+                background: var(--vscode-editor-background);
+                border: 1px solid var(--vscode-panel-border);
+                border-radius: 8px;
+                padding: 20px;
+                font-family: 'Courier New', monospace;
+                white-space: pre-wrap;
+                overflow-x: auto;
+            }
+        `,
+        body: `
+            <div class="container">
+                <div class="header">
+                    <h1>💡 Code Suggestions</h1>
                 </div>
-            </body>
-            </html>
-        `;
-    }
 
-    // Function to generate HTML for code suggestions
-    function getSuggestionsHtml(suggestions: any[], code: string): string {
-        return `
-            <!DOCTYPE html>
-            <html lang="en">
-            <head>
-                <meta charset="UTF-8">
-                <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                <title>Code Suggestions</title>
-                <style>
-                    body {
-                        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-                        background: var(--vscode-editor-background);
-                        color: var(--vscode-editor-foreground);
-                        padding: 20px;
-                        line-height: 1.6;
-                    }
-                    
-                    .container {
-                        max-width: 800px;
-                        margin: 0 auto;
-                    }
-                    
-                    .header {
-                        margin-bottom: 30px;
-                    }
-                    
-                    .header h1 {
-                        color: var(--vscode-textLink-foreground);
-                        font-size: 24px;
-                        margin-bottom: 10px;
-                    }
-                    
-                    .suggestion-card {
-                        background: var(--vscode-editor-background);
-                        border: 1px solid var(--vscode-panel-border);
-                        border-radius: 8px;
-                        padding: 20px;
-                        margin-bottom: 20px;
-                    }
-                    
-                    .suggestion-title {
-                        color: var(--vscode-textLink-foreground);
-                        font-size: 18px;
-                        font-weight: bold;
-                        margin-bottom: 10px;
-                    }
-                    
-                    .suggestion-description {
-                        color: var(--vscode-editor-foreground);
-                        margin-bottom: 15px;
-                    }
-                    
-                    .suggestion-priority {
-                        display: inline-block;
-                        padding: 4px 8px;
-                        border-radius: 4px;
-                        font-size: 12px;
-                        font-weight: 500;
-                    }
-                    
-                    .priority-high {
-                        background: var(--vscode-errorForeground);
-                        color: var(--vscode-editor-background);
-                    }
-                    
-                    .priority-medium {
-                        background: var(--vscode-warningForeground);
-                        color: var(--vscode-editor-background);
-                    }
-                    
-                    .priority-low {
-                        background: var(--vscode-notificationsInfoIcon-foreground);
-                        color: var(--vscode-editor-background);
-                    }
-                    
-                    .code-section {
-                        margin-top: 30px;
-                    }
-                    
-                    .code-section h2 {
-                        color: var(--vscode-textLink-foreground);
-                        margin-bottom: 15px;
-                    }
-                    
-                    .code-block {
-                        background: var(--vscode-editor-background);
-                        border: 1px solid var(--vscode-panel-border);
-                        border-radius: 8px;
-                        padding: 20px;
-                        font-family: 'Courier New', monospace;
-                        white-space: pre-wrap;
-                        overflow-x: auto;
-                    }
-                </style>
-            </head>
-            <body>
-                <div class="container">
-                    <div class="header">
-                        <h1>💡 Code Suggestions</h1>
-                    </div>
-                    
-                    ${suggestions.map(s => `
-                        <div class="suggestion-card">
-                            <div class="suggestion-title">${s.title}</div>
-                            <div class="suggestion-description">${s.description}</div>
-                            <div class="suggestion-priority priority-${s.priority.toLowerCase()}">${s.priority}</div>
-                        </div>
-                    `).join('')}
-                    
-                    <div class="code-section">
-                        <h2>Analyzed Code</h2>
-                        <div class="code-block">${code}</div>
+                ${suggestions.map(s => `
+                    <div class="suggestion-card">
+                        <div class="suggestion-title">${escapeHtml(s.title)}</div>
+                        <div class="suggestion-description">${escapeHtml(s.description)}</div>
+                        <div class="suggestion-priority priority-${priorityClass(s.priority)}">${escapeHtml(s.priority)}</div>
                     </div>
+                `).join('')}
+
+                <div class="code-section">
+                    <h2>Analyzed Code</h2>
+                    <div class="code-block">${escapeHtml(code)}</div>
                 </div>
-            </body>
-            </html>
-        `;
-    }
+            </div>
+        `
+    };
+}
 
 export function deactivate() {
     console.log('Cost Katana AI Optimizer extension is now deactivated!');
-}
\ No newline at end of file
+}
@@ -0,0 +1,161 @@
+import * as vscode from 'vscode';
+
+export type LlmProvider = 'openai' | 'anthropic' | 'google' | 'langchain';
+
+export interface LlmCallSite {
+    provider: LlmProvider;
+    // From the start of the call expression to its closing parenthesis
+    range: vscode.Range;
+    // Model literal used by the call, if one could be found
+    model?: string;
+    // Range of the literal's contents, without quotes
+    modelRange?: vscode.Range;
+    // Inline string literals passed to the call, joined
+    promptText: string;
+    maxOutputTokens?: number;
+}
+
+interface CallPattern {
+    provider: LlmProvider;
+    pattern: RegExp;
+    // The document must mention the SDK, so e.g. Twilio's `messages.create` is not matched
+    requires: RegExp;
+}
+
+const CALL_PATTERNS: CallPattern[] = [
+    {
+        provider: 'openai',
+        pattern: /[\w\])]\.(?:beta\.)?(?:chat\.completions|completions|responses)\.(?:create|parse|stream)\s*\(/g,
+        requires: /openai/i
+    },
+    {
+        provider: 'anthropic',
+        pattern: /[\w\])]\.(?:beta\.)?messages\.(?:create|stream)\s*\(/g,
+        requires: /anthropic/i
+    },
+    {
+        provider: 'google',
+        pattern: /[\w\])]\.(?:generateContent|generateContentStream|generate_content|generate_content_async)\s*\(/g,
+        requires: /generative|genai|vertex/i
+    },
+    {
+        provider: 'langchain',
+        pattern: /\b(?:new\s+)?(?:ChatOpenAI|AzureChatOpenAI|ChatAnthropic|ChatGoogleGenerativeAI|ChatVertexAI|ChatMistralAI|ChatGroq|ChatBedrockConverse)\s*\(/g,
+        requires: /langchain/i
+    }
+];
+
+const MODEL_ARGUMENT = /\bmodel(?:_name|Name|_id|Id)?\s*[:=]\s*(['"`])([^'"`\n]+?)\1/;
+const MAX_TOKENS_ARGUMENT = /\b(?:max_tokens|maxTokens|max_output_tokens|maxOutputTokens|max_completion_tokens|maxCompletionTokens)\s*[:=]\s*(\d+)/;
+// Google SDKs pick the model when the client is created, not per call
+const GOOGLE_MODEL_FACTORY = /(?:getGenerativeModel\s*\(\s*\{[^}]*?\bmodel\s*:\s*|GenerativeModel\s*\(\s*(?:model_name\s*=\s*)?)(['"`])([^'"`\n]+?)\1/g;
+const STRING_LITERAL = /(['"`])((?:\\.|(?!\1)[^\\])*?)\1/gs;
+// Enum-like strings that are not prompt content
+const NON_PROMPT_STRINGS = new Set(['user', 'system', 'assistant', 'developer', 'tool', 'text', 'json_object', 'json_schema', 'auto', 'none']);
+const MAX_ARGUMENT_LENGTH = 20000;
+
+/**
+ * Finds OpenAI, Anthropic, Google and LangChain call sites in a document
+ * with a plain text scan, reading the model and inline prompt literals
+ * from each call's arguments.
+ */
+export function findLlmCallSites(document: vscode.TextDocument): LlmCallSite[] {
+    const text = document.getText();
+    const sites: LlmCallSite[] = [];
+
+    for (const { provider, pattern, requires } of CALL_PATTERNS) {
+        if (!requires.test(text)) {
+            continue;
+        }
+
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text))) {
+            const start = match.index + (provider === 'langchain' ? 0 : 1);
+            const openParen = match.index + match[0].length - 1;
+            const closeParen = findClosingParen(text, openParen);
+            const args = text.substring(openParen + 1, closeParen);
+
+            let model: string | undefined;
+            let modelOffset: number | undefined;
+            const modelMatch = MODEL_ARGUMENT.exec(args);
+            if (modelMatch) {
+                model = modelMatch[2];
+                modelOffset = openParen + 1 + modelMatch.index + modelMatch[0].length - modelMatch[2].length - 1;
+            } else if (provider === 'google') {
+                const factory = findLastBefore(GOOGLE_MODEL_FACTORY, text, start);
+                if (factory) {
+                    model = factory[2];
+                    modelOffset = factory.index + factory[0].length - factory[2].length - 1;
+                }
+            }
+
+            const maxTokens = MAX_TOKENS_ARGUMENT.exec(args);
+            sites.push({
+                provider,
+                range: new vscode.Range(document.positionAt(start), document.positionAt(closeParen + 1)),
+                model,
+                modelRange: model && modelOffset !== undefined
+                    ? new vscode.Range(document.positionAt(modelOffset), document.positionAt(modelOffset + model.length))
+                    : undefined,
+                promptText: getPromptText(args, model),
+                maxOutputTokens: maxTokens ? parseInt(maxTokens[1], 10) : undefined
+            });
+        }
+    }
+
+    return sites.sort((a, b) => a.range.start.compareTo(b.range.start));
+}
+
+// Index of the parenthesis closing the one at `openParen`, skipping string literals
+function findClosingParen(text: string, openParen: number): number {
+    const limit = Math.min(text.length, openParen + MAX_ARGUMENT_LENGTH);
+    let depth = 0;
+    let quote: string | undefined;
+
+    for (let i = openParen; i < limit; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === '\\') {
+                i++;
+            } else if (char === quote) {
+                quote = undefined;
+            }
+            continue;
+        }
+        if (char === '"' || char === '\'' || char === '`') {
+            quote = char;
+        } else if (char === '(' || char === '[' || char === '{') {
+            depth++;
+        } else if (char === ')' || char === ']' || char === '}') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return limit - 1;
+}
+
+function findLastBefore(pattern: RegExp, text: string, offset: number): RegExpExecArray | undefined {
+    pattern.lastIndex = 0;
+    let last: RegExpExecArray | undefined;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) && match.index < offset) {
+        last = match;
+    }
+    return last;
+}
+
+function getPromptText(args: string, model: string | undefined): string {
+    const parts: string[] = [];
+    STRING_LITERAL.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = STRING_LITERAL.exec(args))) {
+        const value = match[2];
+        if (value && value !== model && !NON_PROMPT_STRINGS.has(value) && !/^[\w.-]+$/.test(value)) {
+            parts.push(value);
+        }
+    }
+    return parts.join('\n');
+}
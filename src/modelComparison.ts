@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import { formatCost, ModelPricing, PricingCatalog, TYPICAL_REQUEST } from './pricing';
+import { countTokensForFamily, getTokenizerFamily, TokenizerFamily } from './tokenizer';
+import { UsageLedger } from './usageLedger';
+
+export interface ModelComparisonRow {
+    model: string;
+    provider: string;
+    tier: ModelPricing['tier'];
+    tokenizer: TokenizerFamily;
+    inputTokens: number;
+    // USD per token after workspace price overrides
+    inputPrice: number;
+    outputPrice: number;
+    contextWindow: number;
+    overridden: boolean;
+}
+
+export interface ModelComparison {
+    rows: ModelComparisonRow[];
+    outputTokens: number;
+    // Where the output estimate came from, for display
+    outputSource: string;
+    monthlyRequests: number;
+    volumeSource: string;
+}
+
+// Costs of one row for a given output size and volume, with display text from `formatCost`
+export interface ComparisonPrice {
+    model: string;
+    perCall: number;
+    perThousand: number;
+    perMonth: number;
+    formatted: { perCall: string; perThousand: string; perMonth: string };
+}
+
+const HISTORY_DAYS = 30;
+// Fewer tracked requests than this are too noisy to estimate from
+const MIN_HISTORY_REQUESTS = 5;
+const DEFAULT_MONTHLY_REQUESTS = 1000;
+
+/**
+ * Prices a prompt on every catalog model, counting its input tokens with
+ * each model's tokenizer. The expected output size and monthly volume come
+ * from the last 30 days of tracked usage when there is enough of it.
+ */
+export async function compareModels(text: string, pricing: PricingCatalog, ledger: UsageLedger, scope?: vscode.Uri): Promise<ModelComparison> {
+    const tokensByFamily = new Map<TokenizerFamily, number>();
+    const countFor = (family: TokenizerFamily) => {
+        if (!tokensByFamily.has(family)) {
+            tokensByFamily.set(family, countTokensForFamily(text, family));
+        }
+        return tokensByFamily.get(family)!;
+    };
+
+    const rows = pricing.listModels().flatMap(model => {
+        // Priced for one million tokens so overrides are reflected in the per-token price
+        const input = pricing.estimateCost(model.id, { inputTokens: 1_000_000, outputTokens: 0 }, scope);
+        const output = pricing.estimateCost(model.id, { inputTokens: 0, outputTokens: 1_000_000 }, scope);
+        if (!input || !output) {
+            return [];
+        }
+        const tokenizer = getTokenizerFamily(model.id);
+        return [{
+            model: model.id,
+            provider: model.provider,
+            tier: model.tier,
+            tokenizer,
+            inputTokens: countFor(tokenizer),
+            inputPrice: input.totalCost / 1_000_000,
+            outputPrice: output.totalCost / 1_000_000,
+            contextWindow: model.contextWindow,
+            overridden: input.overridden || output.overridden
+        }];
+    });
+
+    const history = await ledger.entries({ since: new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000) });
+    const enoughHistory = history.length >= MIN_HISTORY_REQUESTS;
+    return {
+        rows,
+        outputTokens: enoughHistory ? median(history.map(entry => entry.outputTokens)) : TYPICAL_REQUEST.outputTokens,
+        outputSource: enoughHistory ? `median of ${history.length} tracked responses` : 'typical response size',
+        monthlyRequests: enoughHistory ? history.length : DEFAULT_MONTHLY_REQUESTS,
+        volumeSource: enoughHistory ? `requests tracked in the last ${HISTORY_DAYS} days` : 'assumed; not enough tracked usage yet'
+    };
+}
+
+export function priceComparison(rows: ModelComparisonRow[], outputTokens: number, monthlyRequests: number): ComparisonPrice[] {
+    return rows.map(row => {
+        const perCall = row.inputTokens * row.inputPrice + outputTokens * row.outputPrice;
+        const perThousand = perCall * 1000;
+        const perMonth = perCall * monthlyRequests;
+        return {
+            model: row.model,
+            perCall,
+            perThousand,
+            perMonth,
+            formatted: { perCall: formatCost(perCall), perThousand: formatCost(perThousand), perMonth: formatCost(perMonth) }
+        };
+    });
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return Math.round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2);
+}
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import { formatCost, ModelPricing, PricingCatalog, TYPICAL_REQUEST } from './pricing';
+
+export const EXPENSIVE_MODEL_CODE = 'expensive-model';
+
+interface CheaperModel {
+    model: ModelPricing;
+    currentCost: number;
+    cheaperCost: number;
+    savingsPercent: number;
+}
+
+type SeveritySetting = 'error' | 'warning' | 'information' | 'hint';
+
+const SEVERITIES: Record<SeveritySetting, vscode.DiagnosticSeverity> = {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    information: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint
+};
+
+// Source and config languages scanned for model literals
+const LANGUAGES = new Set([
+    'typescript', 'typescriptreact', 'javascript', 'javascriptreact', 'python', 'go', 'java', 'kotlin', 'ruby',
+    'php', 'csharp', 'rust', 'json', 'jsonc', 'yaml', 'toml', 'dotenv', 'properties', 'ini'
+]);
+export const MODEL_DIAGNOSTICS_SELECTOR: vscode.DocumentSelector = [...LANGUAGES].map(language => ({ language }));
+
+// Languages where config values are commonly unquoted, e.g. `model: gpt-4`
+const UNQUOTED_LANGUAGES = new Set(['yaml', 'toml', 'dotenv', 'properties', 'ini']);
+
+// Languages where a quoted string followed by a colon is a key, such as a price table entry, not a model choice
+const KEYED_LANGUAGES = new Set(['json', 'jsonc', 'yaml']);
+
+const QUOTED_LITERAL = /(['"`])([A-Za-z0-9][\w.:/@-]{0,80})\1/g;
+const UNQUOTED_VALUE = /^[ \t]*[\w.-]*model[\w.-]*[ \t]*[:=][ \t]*([A-Za-z0-9][\w.:/@-]{0,80})[ \t]*(?:#.*)?$/gim;
+const DEBOUNCE_MS = 500;
+
+/**
+ * Flags hard-coded model identifiers when the same provider offers a
+ * cheaper model in the same capability tier, with a quick fix that
+ * rewrites the literal. Economy models are never flagged.
+ */
+export class ModelCostDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('costKatana');
+    private readonly disposables: vscode.Disposable[] = [this.diagnostics];
+    private readonly pending = new Map<string, NodeJS.Timeout>();
+
+    constructor(private readonly pricing: PricingCatalog) {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument(document => this.analyze(document)),
+            vscode.workspace.onDidChangeTextDocument(event => this.schedule(event.document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('costKatana.diagnostics') || event.affectsConfiguration('costKatana.pricingOverrides')) {
+                    this.analyzeAll();
+                }
+            }),
+            pricing.onDidChange(() => this.analyzeAll())
+        );
+        this.analyzeAll();
+    }
+
+    analyzeAll() {
+        vscode.workspace.textDocuments.forEach(document => this.analyze(document));
+    }
+
+    analyze(document: vscode.TextDocument) {
+        const config = vscode.workspace.getConfiguration('costKatana.diagnostics', document.uri);
+        if (!LANGUAGES.has(document.languageId) || document.uri.scheme === 'output' || !config.get<boolean>('enabled', true)) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+
+        const severity = SEVERITIES[config.get<SeveritySetting>('severity', 'information')] ?? vscode.DiagnosticSeverity.Information;
+        const allowed = new Set(config.get<string[]>('allowedModels', []).map(model => this.pricing.getModel(model)?.id || model));
+        const found: vscode.Diagnostic[] = [];
+
+        for (const { value, offset } of findCandidateLiterals(document)) {
+            const current = this.pricing.getModel(value);
+            if (!current || allowed.has(current.id)) {
+                continue;
+            }
+            const cheaper = this.findCheaperModel(value, document.uri);
+            if (!cheaper) {
+                continue;
+            }
+
+            const range = new vscode.Range(document.positionAt(offset), document.positionAt(offset + value.length));
+            const diagnostic = new vscode.Diagnostic(
+                range,
+                `"${value}" costs ~${formatCost(cheaper.currentCost)} per typical request. ` +
+                    `"${cheaper.model.id}" in the same ${current.tier} tier costs ~${formatCost(cheaper.cheaperCost)} (${cheaper.savingsPercent}% less).`,
+                severity
+            );
+            diagnostic.source = 'Cost Katana';
+            diagnostic.code = EXPENSIVE_MODEL_CODE;
+            found.push(diagnostic);
+        }
+
+        this.diagnostics.set(document.uri, found);
+    }
+
+    // Cheapest same-provider, same-tier model that saves at least the configured share
+    findCheaperModel(model: string, scope?: vscode.Uri): CheaperModel | undefined {
+        const current = this.pricing.getModel(model);
+        if (!current || current.tier === 'economy') {
+            return undefined;
+        }
+
+        const minSavings = vscode.workspace
+            .getConfiguration('costKatana.diagnostics', scope)
+            .get<number>('minSavingsPercent', 25);
+        const costOf = (id: string) => this.pricing.estimateCost(id, TYPICAL_REQUEST, scope)?.totalCost ?? Infinity;
+        const currentCost = costOf(current.id);
+
+        const best = this.pricing.listModels()
+            .filter(candidate => candidate.provider === current.provider && candidate.tier === current.tier && candidate.id !== current.id)
+            .map(candidate => ({ model: candidate, cost: costOf(candidate.id) }))
+            .sort((a, b) => a.cost - b.cost)[0];
+        if (!best || !Number.isFinite(currentCost) || currentCost <= 0) {
+            return undefined;
+        }
+
+        const savingsPercent = Math.round((1 - best.cost / currentCost) * 100);
+        return savingsPercent >= minSavings
+            ? { model: best.model, currentCost, cheaperCost: best.cost, savingsPercent }
+            : undefined;
+    }
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== 'Cost Katana' || diagnostic.code !== EXPENSIVE_MODEL_CODE) {
+                continue;
+            }
+
+            const literal = document.getText(diagnostic.range);
+            const cheaper = this.findCheaperModel(literal, document.uri);
+            if (cheaper) {
+                const replace = new vscode.CodeAction(`Replace with "${cheaper.model.id}"`, vscode.CodeActionKind.QuickFix);
+                replace.edit = new vscode.WorkspaceEdit();
+                replace.edit.replace(document.uri, diagnostic.range, cheaper.model.id);
+                replace.diagnostics = [diagnostic];
+                replace.isPreferred = true;
+                actions.push(replace);
+            }
+
+            const allow = new vscode.CodeAction(`Allow "${literal}" in this workspace`, vscode.CodeActionKind.QuickFix);
+            allow.command = { command: 'cost-katana.allow-model', title: 'Allow Model', arguments: [literal, document.uri] };
+            allow.diagnostics = [diagnostic];
+            actions.push(allow);
+        }
+        return actions;
+    }
+
+    dispose() {
+        this.pending.forEach(timer => clearTimeout(timer));
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private schedule(document: vscode.TextDocument) {
+        const key = document.uri.toString();
+        clearTimeout(this.pending.get(key));
+        this.pending.set(key, setTimeout(() => {
+            this.pending.delete(key);
+            this.analyze(document);
+        }, DEBOUNCE_MS));
+    }
+}
+
+// Add a model to the workspace allow-list so intentional premium usage is not flagged
+export async function allowModel(model: string, scope?: vscode.Uri) {
+    const config = vscode.workspace.getConfiguration('costKatana.diagnostics', scope);
+    const allowed = config.get<string[]>('allowedModels', []);
+    if (!allowed.includes(model)) {
+        const target = vscode.workspace.workspaceFolders?.length
+            ? vscode.ConfigurationTarget.Workspace
+            : vscode.ConfigurationTarget.Global;
+        await config.update('allowedModels', [...allowed, model], target);
+    }
+    vscode.window.showInformationMessage(`"${model}" will no longer be flagged as an expensive model`);
+}
+
+function findCandidateLiterals(document: vscode.TextDocument): Array<{ value: string; offset: number }> {
+    const text = document.getText();
+    const literals: Array<{ value: string; offset: number }> = [];
+
+    QUOTED_LITERAL.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = QUOTED_LITERAL.exec(text))) {
+        if (KEYED_LANGUAGES.has(document.languageId) && /^\s*:/.test(text.substr(QUOTED_LITERAL.lastIndex, 8))) {
+            continue;
+        }
+        literals.push({ value: match[2], offset: match.index + 1 });
+    }
+
+    if (UNQUOTED_LANGUAGES.has(document.languageId)) {
+        UNQUOTED_VALUE.lastIndex = 0;
+        while ((match = UNQUOTED_VALUE.exec(text))) {
+            literals.push({ value: match[1], offset: match.index + match[0].indexOf(match[1], match[0].search(/[:=]/)) });
+        }
+    }
+    return literals;
+}
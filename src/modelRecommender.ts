@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { PricingCatalog, TokenUsage } from './pricing';
+import { LedgerEntry, UsageLedger } from './usageLedger';
+
+export interface ModelRecommendation {
+    model: string;
+    // Weighted score between 0 and 1, higher is better
+    score: number;
+    reason: string;
+    // Estimated cost of the request being planned
+    estimatedCost: number;
+    // Null when recommended from the catalog rather than from history
+    history: ModelHistory | null;
+}
+
+export interface ModelHistory {
+    interactions: number;
+    // Interactions in the same language or file type as the current document
+    similar: number;
+    averageCost: number;
+    // Share of interactions followed by another one in the same file soon after
+    repromptRate: number;
+}
+
+export interface RecommendationContext {
+    languageId?: string;
+    // File extension including the dot, e.g. '.ts'
+    extension?: string;
+    usage: TokenUsage;
+    scope?: vscode.Uri;
+}
+
+interface RankingWeights {
+    cost: number;
+    reprompts: number;
+    similarity: number;
+}
+
+const DEFAULT_WEIGHTS: RankingWeights = { cost: 0.5, reprompts: 0.3, similarity: 0.2 };
+const RECOMMENDATION_LIMIT = 6;
+
+/**
+ * Ranks the models this workspace has actually used by cost per interaction,
+ * how often their answers were re-prompted and how much they were used for
+ * similar files. Falls back to the cheapest catalog model per tier until
+ * enough usage has been tracked.
+ */
+export async function recommendModels(ledger: UsageLedger, pricing: PricingCatalog, context: RecommendationContext): Promise<ModelRecommendation[]> {
+    const config = vscode.workspace.getConfiguration('costKatana.recommendations', context.scope);
+    const weights = { ...DEFAULT_WEIGHTS, ...config.get<Partial<RankingWeights>>('weights', {}) };
+    const lookbackDays = config.get<number>('lookbackDays', 90);
+    const minInteractions = config.get<number>('minInteractions', 3);
+    const repromptWindowMs = config.get<number>('repromptWindowMinutes', 5) * 60 * 1000;
+    const estimate = (model: string) => pricing.estimateCost(model, context.usage, context.scope)?.totalCost;
+
+    const entries = await ledger.entries({ since: new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000) });
+    const histories = [...summarize(entries, context, repromptWindowMs).entries()]
+        .filter(([model, history]) => history.interactions >= minInteractions && estimate(model) !== undefined);
+
+    if (histories.length === 0) {
+        return recommendFromCatalog(pricing, estimate);
+    }
+
+    const cheapest = Math.min(...histories.map(([, history]) => history.averageCost));
+    const mostSimilar = Math.max(...histories.map(([, history]) => history.similar));
+    const totalWeight = weights.cost + weights.reprompts + weights.similarity || 1;
+
+    return histories
+        .map(([model, history]) => {
+            const costScore = history.averageCost > 0 ? cheapest / history.averageCost : 1;
+            const similarityScore = mostSimilar > 0 ? history.similar / mostSimilar : 0;
+            const score = (weights.cost * costScore + weights.reprompts * (1 - history.repromptRate) + weights.similarity * similarityScore) / totalWeight;
+            return { model, score, reason: describe(history, context), estimatedCost: estimate(model)!, history };
+        })
+        .sort((a, b) => b.score - a.score)
+        .slice(0, RECOMMENDATION_LIMIT);
+}
+
+function summarize(entries: LedgerEntry[], context: RecommendationContext, repromptWindowMs: number): Map<string, ModelHistory> {
+    const histories = new Map<string, ModelHistory & { totalCost: number; reprompts: number }>();
+    const lastInFile = new Map<string, LedgerEntry>();
+
+    // Entries are oldest first, so each one is compared with the previous interaction in its file
+    for (const entry of entries) {
+        const model = entry.model;
+        const history = histories.get(model) || { interactions: 0, similar: 0, averageCost: 0, repromptRate: 0, totalCost: 0, reprompts: 0 };
+        history.interactions++;
+        history.totalCost += entry.cost;
+        if (isSimilar(entry, context)) {
+            history.similar++;
+        }
+
+        if (entry.filePath) {
+            const previous = lastInFile.get(entry.filePath);
+            if (previous && Date.parse(entry.timestamp) - Date.parse(previous.timestamp) <= repromptWindowMs) {
+                // The earlier answer was not good enough, which counts against the model that gave it
+                const previousHistory = histories.get(previous.model);
+                if (previousHistory) {
+                    previousHistory.reprompts++;
+                }
+            }
+            lastInFile.set(entry.filePath, entry);
+        }
+        histories.set(model, history);
+    }
+
+    return new Map([...histories.entries()].map(([model, { totalCost, reprompts, ...history }]) => [model, {
+        ...history,
+        averageCost: history.interactions > 0 ? totalCost / history.interactions : 0,
+        repromptRate: history.interactions > 0 ? Math.min(reprompts / history.interactions, 1) : 0
+    }]));
+}
+
+function isSimilar(entry: LedgerEntry, context: RecommendationContext): boolean {
+    return (!!context.languageId && entry.language === context.languageId)
+        || (!!context.extension && !!entry.filePath && entry.filePath.toLowerCase().endsWith(context.extension.toLowerCase()));
+}
+
+function describe(history: ModelHistory, context: RecommendationContext): string {
+    const similar = context.languageId && history.similar > 0 ? `${history.similar} of them in ${context.languageId} • ` : '';
+    return `${history.interactions} tracked interactions • ${similar}` +
+        `$${history.averageCost.toFixed(4)} per interaction • ${Math.round(history.repromptRate * 100)}% re-prompted`;
+}
+
+function recommendFromCatalog(pricing: PricingCatalog, estimate: (model: string) => number | undefined): ModelRecommendation[] {
+    const cheapestPerTier = new Map<string, ModelRecommendation>();
+    for (const model of pricing.listModels()) {
+        const cost = estimate(model.id);
+        const current = cheapestPerTier.get(model.tier);
+        if (cost !== undefined && (!current || cost < current.estimatedCost)) {
+            cheapestPerTier.set(model.tier, {
+                model: model.id,
+                score: 0,
+                reason: `Cheapest ${model.tier} model in the catalog; not enough tracked usage to rank by history yet`,
+                estimatedCost: cost,
+                history: null
+            });
+        }
+    }
+    return [...cheapestPerTier.values()].sort((a, b) => a.estimatedCost - b.estimatedCost);
+}
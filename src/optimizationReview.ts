@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+
+export const REVIEW_SCHEME = 'cost-katana-review';
+
+export interface ReviewRequest {
+    original: string;
+    optimized: string;
+    // Shown as the diff editor title, e.g. token counts and savings
+    title: string;
+    // File extension for syntax highlighting, e.g. '.md'
+    extension?: string;
+    tokens: (text: string) => number;
+}
+
+interface Hunk {
+    // Segment indices replaced in the original, end exclusive
+    start: number;
+    end: number;
+    replacement: string[];
+}
+
+interface PendingReview {
+    request: ReviewRequest;
+    segments: string[];
+    hunks: Hunk[];
+    resolve: (accepted: string | undefined) => void;
+}
+
+// Prompts are often a single long line, so they are compared sentence by sentence
+const SEGMENT = /[^\n]*?(?:[.!?][ \t]+|\n|$)/g;
+// Larger inputs are compared as one hunk to keep the comparison table small
+const MAX_SEGMENTS = 2000;
+
+/**
+ * Opens optimization results in the native diff editor through virtual
+ * documents and resolves with the text the user accepted: the whole
+ * result, a subset of its hunks, or nothing when discarded.
+ */
+export class OptimizationReview implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly reviews = new Map<string, PendingReview>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private nextId = 0;
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(REVIEW_SCHEME, this),
+            // Closing the diff without choosing counts as discarding it
+            vscode.window.tabGroups.onDidChangeTabs(event => {
+                for (const tab of event.closed) {
+                    if (tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === REVIEW_SCHEME) {
+                        this.settle(tab.input.modified, undefined);
+                    }
+                }
+            })
+        );
+    }
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const review = this.reviews.get(getReviewId(uri));
+        if (!review) {
+            return '';
+        }
+        return uri.path.includes('/Optimized') ? review.request.optimized : review.request.original;
+    }
+
+    async open(request: ReviewRequest): Promise<string | undefined> {
+        const id = String(++this.nextId);
+        const extension = request.extension || '.txt';
+        const original = vscode.Uri.from({ scheme: REVIEW_SCHEME, path: `/${id}/Original${extension}` });
+        const optimized = vscode.Uri.from({ scheme: REVIEW_SCHEME, path: `/${id}/Optimized${extension}` });
+
+        const segments = splitSegments(request.original);
+        const accepted = new Promise<string | undefined>(resolve => {
+            this.reviews.set(id, { request, segments, hunks: computeHunks(segments, splitSegments(request.optimized)), resolve });
+        });
+
+        await vscode.commands.executeCommand('vscode.diff', original, optimized, request.title, { preview: false });
+
+        // The same choices stay available in the diff editor's title bar if this is dismissed
+        vscode.window.showInformationMessage(request.title, 'Accept All', 'Accept Hunks...', 'Discard').then(choice => {
+            if (choice === 'Accept All') {
+                this.acceptAll(optimized);
+            } else if (choice === 'Accept Hunks...') {
+                this.acceptHunks(optimized);
+            } else if (choice === 'Discard') {
+                this.discard(optimized);
+            }
+        });
+
+        return accepted;
+    }
+
+    acceptAll(uri = vscode.window.activeTextEditor?.document.uri) {
+        const review = this.find(uri);
+        if (review) {
+            this.settle(uri!, review.request.optimized);
+        }
+    }
+
+    async acceptHunks(uri = vscode.window.activeTextEditor?.document.uri) {
+        const review = this.find(uri);
+        if (!review) {
+            return;
+        }
+
+        const items = review.hunks.map((hunk, index) => {
+            const removed = review.segments.slice(hunk.start, hunk.end).join('');
+            const added = hunk.replacement.join('');
+            const saved = review.request.tokens(removed) - review.request.tokens(added);
+            return {
+                label: `Change ${index + 1}`,
+                description: saved >= 0 ? `saves ~${saved} tokens` : `adds ~${-saved} tokens`,
+                detail: `${preview(removed) || '(nothing)'}  →  ${preview(added) || '(removed)'}`,
+                picked: true,
+                index
+            };
+        });
+        const selected = await vscode.window.showQuickPick(items, {
+            canPickMany: true,
+            placeHolder: 'Select the changes to apply',
+            matchOnDetail: true
+        });
+        if (!selected || !this.find(uri)) {
+            return;
+        }
+
+        const chosen = new Set(selected.map(item => item.index));
+        this.settle(uri!, chosen.size > 0 ? applyHunks(review.segments, review.hunks.filter((_hunk, index) => chosen.has(index))) : undefined);
+    }
+
+    discard(uri = vscode.window.activeTextEditor?.document.uri) {
+        if (this.find(uri)) {
+            this.settle(uri!, undefined);
+        }
+    }
+
+    dispose() {
+        this.reviews.forEach(review => review.resolve(undefined));
+        this.reviews.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private find(uri: vscode.Uri | undefined): PendingReview | undefined {
+        if (uri?.scheme !== REVIEW_SCHEME) {
+            return undefined;
+        }
+        return this.reviews.get(getReviewId(uri));
+    }
+
+    private settle(uri: vscode.Uri, accepted: string | undefined) {
+        const id = getReviewId(uri);
+        const review = this.reviews.get(id);
+        if (!review) {
+            return;
+        }
+        this.reviews.delete(id);
+
+        const tabs = vscode.window.tabGroups.all
+            .flatMap(group => group.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputTextDiff && tab.input.modified.scheme === REVIEW_SCHEME && getReviewId(tab.input.modified) === id);
+        vscode.window.tabGroups.close(tabs).then(undefined, error => console.error('❌ Failed to close optimization review:', error));
+
+        review.resolve(accepted);
+    }
+}
+
+function getReviewId(uri: vscode.Uri): string {
+    return uri.path.split('/')[1];
+}
+
+function splitSegments(text: string): string[] {
+    return (text.match(SEGMENT) || []).filter(segment => segment.length > 0);
+}
+
+// Groups the segments that differ between the two texts, using their longest common subsequence
+function computeHunks(original: string[], optimized: string[]): Hunk[] {
+    if (original.length * optimized.length > MAX_SEGMENTS * MAX_SEGMENTS) {
+        return [{ start: 0, end: original.length, replacement: optimized }];
+    }
+
+    const n = original.length;
+    const m = optimized.length;
+    // lcs[i][j] is the common length of original[i..] and optimized[j..]
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = original[i] === optimized[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const hunks: Hunk[] = [];
+    let current: Hunk | undefined;
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && original[i] === optimized[j]) {
+            if (current) {
+                hunks.push(current);
+                current = undefined;
+            }
+            i++;
+            j++;
+            continue;
+        }
+        current = current || { start: i, end: i, replacement: [] };
+        if (j < m && (i === n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            current.replacement.push(optimized[j++]);
+        } else {
+            current.end = ++i;
+        }
+    }
+    if (current) {
+        hunks.push(current);
+    }
+    return hunks;
+}
+
+function applyHunks(segments: string[], hunks: Hunk[]): string {
+    const parts: string[] = [];
+    let position = 0;
+    for (const hunk of hunks) {
+        parts.push(...segments.slice(position, hunk.start), ...hunk.replacement);
+        position = hunk.end;
+    }
+    parts.push(...segments.slice(position));
+    return parts.join('');
+}
+
+function preview(text: string): string {
+    const collapsed = text.replace(/\s+/g, ' ').trim();
+    return collapsed.length > 60 ? `${collapsed.substring(0, 57)}...` : collapsed;
+}
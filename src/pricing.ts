@@ -0,0 +1,216 @@
+import * as vscode from 'vscode';
+import bundledCatalog from './data/pricing.json';
+
+export type ModelTier = 'economy' | 'balanced' | 'premium' | 'reasoning';
+
+export interface ModelPricing {
+    id: string;
+    provider: string;
+    family: string;
+    tier: ModelTier;
+    // USD per 1M tokens
+    inputPrice: number;
+    outputPrice: number;
+    cachedInputPrice?: number;
+    contextWindow: number;
+    aliases?: string[];
+}
+
+export interface PricingCatalogData {
+    version: string;
+    updatedAt: string;
+    currency: string;
+    unit: 'per_million_tokens';
+    models: ModelPricing[];
+}
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    cachedInputTokens?: number;
+}
+
+export interface CostEstimate {
+    model: ModelPricing;
+    inputCost: number;
+    outputCost: number;
+    totalCost: number;
+    // True when a workspace price override was applied
+    overridden: boolean;
+}
+
+interface PriceOverride {
+    input?: number;
+    output?: number;
+    cachedInput?: number;
+}
+
+// Request size assumed when the actual prompt is unknown
+export const TYPICAL_REQUEST: TokenUsage = { inputTokens: 1500, outputTokens: 500 };
+
+const CACHE_KEY = 'costKatana.pricingCatalog';
+const LAST_REFRESH_KEY = 'costKatana.pricingCatalogRefreshedAt';
+const REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const PROVIDER_LABELS: Record<string, string> = {
+    openai: 'OpenAI',
+    anthropic: 'Anthropic',
+    google: 'Google',
+    deepseek: 'DeepSeek',
+    xai: 'xAI',
+    cursor: 'Cursor'
+};
+
+/**
+ * Versioned model pricing shipped with the extension. A newer catalog
+ * fetched from the backend replaces it, and workspaces can override
+ * individual prices through `costKatana.pricingOverrides`.
+ */
+export class PricingCatalog {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    // Fires when a newer catalog replaces the current one
+    readonly onDidChange = this.changeEmitter.event;
+
+    private catalog: PricingCatalogData;
+    private index = new Map<string, ModelPricing>();
+
+    constructor(
+        private readonly state: vscode.Memento,
+        private readonly fetchCatalog: () => Promise<PricingCatalogData | undefined>
+    ) {
+        const cached = state.get<PricingCatalogData>(CACHE_KEY);
+        const bundled = bundledCatalog as PricingCatalogData;
+        this.catalog = cached && isValidCatalog(cached) && cached.updatedAt >= bundled.updatedAt ? cached : bundled;
+        this.buildIndex();
+    }
+
+    get version(): string {
+        return this.catalog.version;
+    }
+
+    listModels(): ModelPricing[] {
+        return [...this.catalog.models];
+    }
+
+    getModel(model: string): ModelPricing | undefined {
+        const key = normalizeModelId(model);
+        return this.index.get(key) || this.index.get(key.replace(/-(\d{8}|\d{4}-\d{2}-\d{2}|latest)$/, ''));
+    }
+
+    estimateCost(model: string, usage: TokenUsage, scope?: vscode.Uri): CostEstimate | undefined {
+        const pricing = this.getModel(model);
+        if (!pricing) {
+            return undefined;
+        }
+
+        const overrides = vscode.workspace
+            .getConfiguration('costKatana', scope)
+            .get<Record<string, PriceOverride>>('pricingOverrides', {});
+        const override = overrides[pricing.id] || Object.entries(overrides)
+            .find(([id]) => this.getModel(id)?.id === pricing.id)?.[1];
+
+        const inputPrice = override?.input ?? pricing.inputPrice;
+        const outputPrice = override?.output ?? pricing.outputPrice;
+        const cachedPrice = override?.cachedInput ?? pricing.cachedInputPrice ?? inputPrice;
+
+        const cachedTokens = Math.min(usage.cachedInputTokens || 0, usage.inputTokens);
+        const inputCost = ((usage.inputTokens - cachedTokens) * inputPrice + cachedTokens * cachedPrice) / 1_000_000;
+        const outputCost = (usage.outputTokens * outputPrice) / 1_000_000;
+
+        return {
+            model: pricing,
+            inputCost,
+            outputCost,
+            totalCost: inputCost + outputCost,
+            overridden: !!override
+        };
+    }
+
+    // Model picker entries grouped by provider, with prices in the description
+    toQuickPickItems(): vscode.QuickPickItem[] {
+        const items: vscode.QuickPickItem[] = [];
+        let provider: string | undefined;
+
+        for (const model of this.catalog.models) {
+            if (model.provider !== provider) {
+                provider = model.provider;
+                items.push({
+                    label: PROVIDER_LABELS[provider] || provider,
+                    kind: vscode.QuickPickItemKind.Separator
+                });
+            }
+            items.push({
+                label: model.id,
+                description: `$${model.inputPrice} in / $${model.outputPrice} out per 1M tokens`,
+                detail: `${model.tier} • ${formatContextWindow(model.contextWindow)} context`
+            });
+        }
+
+        return items;
+    }
+
+    // Fetch a newer catalog from the backend at most once a day unless forced
+    async refresh(force = false): Promise<boolean> {
+        const lastRefresh = this.state.get<number>(LAST_REFRESH_KEY, 0);
+        if (!force && Date.now() - lastRefresh < REFRESH_INTERVAL_MS) {
+            return false;
+        }
+
+        const remote = await this.fetchCatalog();
+        await this.state.update(LAST_REFRESH_KEY, Date.now());
+
+        if (!remote || !isValidCatalog(remote)) {
+            console.log('⚠️ No valid pricing catalog received from backend');
+            return false;
+        }
+
+        if (remote.version === this.catalog.version || remote.updatedAt < this.catalog.updatedAt) {
+            return false;
+        }
+
+        console.log(`💲 Pricing catalog updated: ${this.catalog.version} → ${remote.version}`);
+        this.catalog = remote;
+        this.buildIndex();
+        await this.state.update(CACHE_KEY, remote);
+        this.changeEmitter.fire();
+        return true;
+    }
+
+    private buildIndex() {
+        this.index.clear();
+        for (const model of this.catalog.models) {
+            this.index.set(normalizeModelId(model.id), model);
+            for (const alias of model.aliases || []) {
+                this.index.set(normalizeModelId(alias), model);
+            }
+        }
+    }
+}
+
+export function formatCost(cost: number): string {
+    if (cost === 0) {
+        return '$0.00';
+    }
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+function formatContextWindow(tokens: number): string {
+    return tokens >= 1_000_000 ? `${Math.round(tokens / 1_000_000)}M` : `${Math.round(tokens / 1000)}k`;
+}
+
+// Strip provider prefixes such as `openai/` or `anthropic.` and normalise case
+function normalizeModelId(model: string): string {
+    return model.trim().toLowerCase().replace(/^[a-z-]+[/.](?=[a-z])/, '').replace(/^models\//, '');
+}
+
+function isValidCatalog(catalog: PricingCatalogData): boolean {
+    return !!catalog
+        && typeof catalog.version === 'string'
+        && typeof catalog.updatedAt === 'string'
+        && Array.isArray(catalog.models)
+        && catalog.models.every(model =>
+            typeof model.id === 'string'
+            && typeof model.inputPrice === 'number'
+            && typeof model.outputPrice === 'number'
+            && typeof model.contextWindow === 'number'
+        );
+}
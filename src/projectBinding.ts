@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+
+export interface BoundProject {
+    id: string;
+    name: string;
+}
+
+const BINDINGS_KEY = 'costKatana.projectBindings';
+
+/**
+ * Remembers which backend project each workspace folder is attributed to.
+ */
+export class ProjectBindings implements vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    constructor(private readonly workspaceState: vscode.Memento) {}
+
+    get(folder: vscode.WorkspaceFolder): BoundProject | undefined {
+        return this.getAll()[folder.uri.toString()];
+    }
+
+    // Binding for the folder containing `uri`, or the first folder when there is no document
+    resolve(uri?: vscode.Uri): BoundProject | undefined {
+        const folder = resolveWorkspaceFolder(uri);
+        return folder ? this.get(folder) : undefined;
+    }
+
+    async set(folder: vscode.WorkspaceFolder, project: BoundProject | undefined) {
+        const bindings = this.getAll();
+        if (project) {
+            bindings[folder.uri.toString()] = { id: project.id, name: project.name };
+        } else {
+            delete bindings[folder.uri.toString()];
+        }
+        await this.workspaceState.update(BINDINGS_KEY, bindings);
+        this.changeEmitter.fire();
+    }
+
+    dispose() {
+        this.changeEmitter.dispose();
+    }
+
+    private getAll(): Record<string, BoundProject> {
+        return { ...this.workspaceState.get<Record<string, BoundProject>>(BINDINGS_KEY, {}) };
+    }
+}
+
+export function resolveWorkspaceFolder(uri?: vscode.Uri): vscode.WorkspaceFolder | undefined {
+    return (uri && vscode.workspace.getWorkspaceFolder(uri)) || vscode.workspace.workspaceFolders?.[0];
+}
+
+// Ask which folder to act on when the workspace has more than one
+export async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders;
+    if (!folders || folders.length === 0) {
+        vscode.window.showErrorMessage('No workspace folder found');
+        return undefined;
+    }
+    if (folders.length === 1) {
+        return folders[0];
+    }
+
+    const activeFolder = resolveWorkspaceFolder(vscode.window.activeTextEditor?.document.uri);
+    const choice = await vscode.window.showQuickPick(
+        folders.map(folder => ({
+            label: folder.name,
+            description: folder === activeFolder ? 'current' : undefined,
+            detail: folder.uri.fsPath,
+            folder
+        })),
+        { placeHolder }
+    );
+    return choice?.folder;
+}
@@ -0,0 +1,172 @@
+import * as vscode from 'vscode';
+import { BoundProject, ProjectBindings, resolveWorkspaceFolder } from './projectBinding';
+
+export const PROJECT_CONFIG_FILE = '.costkatana.json';
+
+// Shape of a committed `.costkatana.json`
+export interface ProjectConfigFile {
+    projectId?: string;
+    projectName?: string;
+    defaultModel?: string;
+    // Monthly budget in USD
+    budget?: number;
+    tags?: string[];
+}
+
+export interface ProjectContext {
+    folder?: vscode.WorkspaceFolder;
+    // Directory holding the `.costkatana.json` that applied, if any
+    configUri?: vscode.Uri;
+    projectId?: string;
+    projectName?: string;
+    defaultModel?: string;
+    budget?: number;
+    tags: string[];
+}
+
+/**
+ * Loads `.costkatana.json` files from every workspace folder and resolves
+ * the project context for a document: the nearest file above it wins,
+ * then the folder's project binding.
+ */
+export class ProjectConfigService implements vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    // Keyed by the directory URI containing the file
+    private readonly configs = new Map<string, ProjectConfigFile>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly bindings: ProjectBindings) {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${PROJECT_CONFIG_FILE}`);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(uri => this.load(uri)),
+            watcher.onDidChange(uri => this.load(uri)),
+            watcher.onDidDelete(uri => this.remove(uri)),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.loadAll()),
+            bindings.onDidChange(() => this.changeEmitter.fire()),
+            this.changeEmitter
+        );
+    }
+
+    async loadAll() {
+        this.configs.clear();
+        const files = await vscode.workspace.findFiles(`**/${PROJECT_CONFIG_FILE}`, '**/node_modules/**');
+        await Promise.all(files.map(uri => this.load(uri, false)));
+        console.log(`📁 Loaded ${this.configs.size} ${PROJECT_CONFIG_FILE} file(s)`);
+        this.changeEmitter.fire();
+    }
+
+    resolve(uri?: vscode.Uri): ProjectContext {
+        const folder = resolveWorkspaceFolder(uri);
+        const binding: BoundProject | undefined = folder ? this.bindings.get(folder) : undefined;
+        const found = folder ? this.findNearest(uri && vscode.workspace.getWorkspaceFolder(uri) ? uri : folder.uri, folder) : undefined;
+        const config = found?.config;
+
+        return {
+            folder,
+            configUri: found?.uri,
+            projectId: config?.projectId || binding?.id,
+            projectName: config?.projectName || (config?.projectId ? undefined : binding?.name),
+            defaultModel: config?.defaultModel,
+            budget: config?.budget,
+            tags: config?.tags || []
+        };
+    }
+
+    // Create or update the folder's `.costkatana.json`, keeping fields that are already set
+    async writeProject(folder: vscode.WorkspaceFolder, project: BoundProject): Promise<vscode.Uri> {
+        const uri = vscode.Uri.joinPath(folder.uri, PROJECT_CONFIG_FILE);
+        // Strict, so an invalid file is reported instead of overwritten without its other fields
+        const existing = (await readConfig(uri, true)) || {};
+        const updated: ProjectConfigFile = { ...existing, projectId: project.id, projectName: project.name };
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(updated, null, 2) + '\n', 'utf8'));
+        await this.load(uri);
+        return uri;
+    }
+
+    // Set `defaultModel` in the `.costkatana.json` held by `configUri`, as returned by `resolve`
+    async writeDefaultModel(configUri: vscode.Uri, model: string): Promise<vscode.Uri> {
+        const uri = vscode.Uri.joinPath(configUri, PROJECT_CONFIG_FILE);
+        const existing = await readConfig(uri, true);
+        if (!existing) {
+            throw new Error(`${vscode.workspace.asRelativePath(uri)} could not be read`);
+        }
+        const updated: ProjectConfigFile = { ...existing, defaultModel: model };
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(updated, null, 2) + '\n', 'utf8'));
+        await this.load(uri);
+        return uri;
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private findNearest(uri: vscode.Uri, folder: vscode.WorkspaceFolder): { uri: vscode.Uri; config: ProjectConfigFile } | undefined {
+        const root = folder.uri.path.replace(/\/$/, '');
+        let dir = uri.toString() === folder.uri.toString() ? folder.uri : vscode.Uri.joinPath(uri, '..');
+
+        while (true) {
+            const config = this.configs.get(dir.toString());
+            if (config) {
+                return { uri: dir, config };
+            }
+            if (dir.path.replace(/\/$/, '') === root || !dir.path.startsWith(root)) {
+                return undefined;
+            }
+            dir = vscode.Uri.joinPath(dir, '..');
+        }
+    }
+
+    private async load(uri: vscode.Uri, notify = true) {
+        const config = await readConfig(uri);
+        const key = vscode.Uri.joinPath(uri, '..').toString();
+        if (config) {
+            this.configs.set(key, config);
+        } else {
+            this.configs.delete(key);
+        }
+        if (notify) {
+            this.changeEmitter.fire();
+        }
+    }
+
+    private remove(uri: vscode.Uri) {
+        this.configs.delete(vscode.Uri.joinPath(uri, '..').toString());
+        this.changeEmitter.fire();
+    }
+}
+
+// Undefined when the file is missing or, unless strict, invalid
+async function readConfig(uri: vscode.Uri, strict = false): Promise<ProjectConfigFile | undefined> {
+    let text: string;
+    try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+        return undefined;
+    }
+
+    try {
+        const parsed = JSON.parse(text);
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error('expected a JSON object');
+        }
+        return {
+            projectId: typeof parsed.projectId === 'string' ? parsed.projectId : undefined,
+            projectName: typeof parsed.projectName === 'string' ? parsed.projectName : undefined,
+            defaultModel: typeof parsed.defaultModel === 'string' ? parsed.defaultModel : undefined,
+            budget: typeof parsed.budget === 'number' ? parsed.budget : undefined,
+            tags: Array.isArray(parsed.tags) ? parsed.tags.filter((tag: unknown) => typeof tag === 'string') : undefined
+        };
+    } catch (error) {
+        if (strict) {
+            throw new Error(`${vscode.workspace.asRelativePath(uri)} is not valid JSON`);
+        }
+        console.error(`❌ Invalid ${PROJECT_CONFIG_FILE} at ${uri.fsPath}:`, error);
+        vscode.window.showWarningMessage(
+            `Cost Katana: ${vscode.workspace.asRelativePath(uri)} is not valid JSON and was ignored.`
+        );
+        return undefined;
+    }
+}
@@ -0,0 +1,282 @@
+import * as vscode from 'vscode';
+import { PromptOptimization } from './api';
+import { formatCost, PricingCatalog } from './pricing';
+import { countTokens } from './tokenizer';
+
+export type OptimizationEngine = 'backend' | 'local' | 'local-first';
+
+interface CompressionStats {
+    fillers: number;
+    verbose: number;
+    duplicates: number;
+    jsonBlocks: number;
+    codeBlocks: number;
+}
+
+// Start of a sentence, line or list item
+const SENTENCE_START = String.raw`(?<=(?:^|\n)[ \t]*(?:(?:[-*+]|\d+[.)])[ \t]+)?|[.!?:][ \t]+)`;
+
+// Phrases that carry no instruction and are dropped. Politeness words and
+// intensifiers only go when they open a sentence, so "say thank you",
+// "thanks to" or "not really required" keep their meaning
+const FILLER_PHRASES: RegExp[] = [
+    /\bplease note that\s+/gi,
+    new RegExp(`${SENTENCE_START}(?:please|kindly),?\\s+(?!(?:a|an|the|this|that|these|those|and|or|if|is|are|to|for)\\b)(?=[a-z]+\\b)`, 'gi'),
+    /\bI (?:would like|want|need) you to\s+/gi,
+    new RegExp(`${SENTENCE_START}(?:basically|actually|literally|essentially|really),?\\s+`, 'gi'),
+    /\b(?:it is|it's) (?:important|worth noting|crucial|essential) (?:to note )?that\s+/gi,
+    /\bmake sure (?:to|that you|you)\s+/gi,
+    /\bas an AI(?: language model)?,?\s*/gi,
+    new RegExp(`${SENTENCE_START}(?:thank you|thanks)(?: (?:so much|in advance|for your help))?(?:[.!]+(?=\\s|$)|(?=[ \\t]*(?:\\n|$)))`, 'gi')
+];
+
+// Verbose boilerplate and its shorter equivalent
+const VERBOSE_PHRASES: Array<[RegExp, string]> = [
+    [/\bin order to\b/gi, 'to'],
+    [/\bdue to the fact that\b/gi, 'because'],
+    [/\bat this point in time\b/gi, 'now'],
+    [/\bfor the purpose of\b/gi, 'for'],
+    [/\bin the event that\b/gi, 'if'],
+    [/\bwith (?:regard|respect) to\b/gi, 'about'],
+    [/\ba (?:large|great) number of\b/gi, 'many'],
+    [/\bprior to\b/gi, 'before'],
+    [/\bis able to\b/gi, 'can'],
+    [/\bin a (?:clear and )?concise (?:manner|way)\b/gi, 'concisely'],
+    [/\byour (?:task|job|goal) is to\s+/gi, ''],
+    [/\byou are (?:a|an) (?:helpful|friendly|useful)(?: and \w+)? (?:AI )?assistant[.!]?\s*/gi, '']
+];
+
+const FENCED_BLOCK = /^([ \t]*)(```|~~~)[ \t]*([\w+#.-]*)[^\n]*\n([\s\S]*?)\n[ \t]*\2[ \t]*$/gm;
+const INLINE_CODE = /`[^`\n]+`/g;
+const SENTENCE = /[^\n]*?(?:[.!?][ \t]+|\n|$)/g;
+// Code fences whose contents are not code, or where indentation must stay as written
+const PRESERVED_BLOCKS = new Set(['', 'text', 'txt', 'plaintext', 'markdown', 'md', 'diff', 'patch', 'make', 'makefile']);
+const MIN_INSTRUCTION_WORDS = 4;
+// Marks where a removed phrase started a sentence, so the next word is capitalized
+const CAPITALIZE = '\u0001';
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+/**
+ * Deterministic, offline prompt compression: normalizes whitespace,
+ * removes filler phrases and repeated instructions, shortens verbose
+ * boilerplate and minifies embedded JSON and code blocks. Reports the
+ * same fields as the backend's `optimizePrompt`.
+ */
+export function compressPrompt(prompt: string, model: string, pricing: PricingCatalog, scope?: vscode.Uri): PromptOptimization {
+    const stats: CompressionStats = { fillers: 0, verbose: 0, duplicates: 0, jsonBlocks: 0, codeBlocks: 0 };
+
+    // Code and JSON are swapped for placeholders so prose rules leave them alone
+    const protectedText: string[] = [];
+    const protect = (value: string) => `\u0000${protectedText.push(value) - 1}\u0000`;
+
+    let text = prompt.replace(/\r\n/g, '\n').replace(FENCED_BLOCK, (block, indent: string, fence: string, language: string, body: string) => {
+        const minified = minifyBlock(body, language.toLowerCase(), stats);
+        return protect(minified === body ? block : `${indent}${fence}${language}\n${minified}\n${indent}${fence}`);
+    });
+    text = minifyInlineJson(text, stats, protect);
+    text = text.replace(INLINE_CODE, code => protect(code));
+
+    for (const pattern of FILLER_PHRASES) {
+        text = replacePhrase(text, pattern, '', () => stats.fillers++);
+    }
+    for (const [pattern, replacement] of VERBOSE_PHRASES) {
+        text = replacePhrase(text, pattern, replacement, () => stats.verbose++);
+    }
+    text = removeRepeatedInstructions(text, stats);
+    text = normalizeWhitespace(text)
+        .replace(new RegExp(`${CAPITALIZE}\\s*([a-z])`, 'g'), (_match, letter: string) => letter.toUpperCase())
+        .split(CAPITALIZE).join('')
+        .replace(PLACEHOLDER, (_match, index: string) => protectedText[Number(index)]);
+
+    const originalTokens = countTokens(prompt, model);
+    let optimizedTokens = countTokens(text, model);
+    // Whitespace and casing changes can tokenize worse; never return a longer prompt
+    if (optimizedTokens >= originalTokens) {
+        text = prompt;
+        optimizedTokens = originalTokens;
+    }
+
+    return {
+        original_prompt: prompt,
+        optimized_prompt: text,
+        token_reduction: originalTokens > 0 ? Math.round(((originalTokens - optimizedTokens) / originalTokens) * 100) : 0,
+        original_tokens: originalTokens,
+        optimized_tokens: optimizedTokens,
+        cost_savings: estimateSavings(originalTokens - optimizedTokens, model, pricing, scope),
+        quality_preserved: true,
+        suggestions: text === prompt
+            ? ['No rule-based reductions found. The Cost Katana backend can rewrite the prompt more deeply.']
+            : describe(stats)
+    };
+}
+
+/**
+ * Merges a local first pass with the backend's optimization of its output,
+ * so the result describes the change from the user's original prompt.
+ */
+export function combineOptimizations(
+    local: PromptOptimization,
+    remote: PromptOptimization,
+    model: string,
+    pricing: PricingCatalog,
+    scope?: vscode.Uri
+): PromptOptimization {
+    const saved = local.original_tokens - remote.optimized_tokens;
+    return {
+        ...remote,
+        original_prompt: local.original_prompt,
+        original_tokens: local.original_tokens,
+        token_reduction: local.original_tokens > 0 ? Math.round((saved / local.original_tokens) * 100) : 0,
+        cost_savings: estimateSavings(saved, model, pricing, scope),
+        suggestions: [...(local.optimized_prompt !== local.original_prompt ? local.suggestions : []), ...remote.suggestions]
+    };
+}
+
+function estimateSavings(tokens: number, model: string, pricing: PricingCatalog, scope?: vscode.Uri): string {
+    return formatCost(pricing.estimateCost(model, { inputTokens: Math.max(tokens, 0), outputTokens: 0 }, scope)?.totalCost ?? 0);
+}
+
+function describe(stats: CompressionStats): string[] {
+    const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+    return [
+        stats.fillers > 0 ? `Removed ${plural(stats.fillers, 'filler phrase')}` : '',
+        stats.verbose > 0 ? `Shortened ${plural(stats.verbose, 'verbose phrase')}` : '',
+        stats.duplicates > 0 ? `Removed ${plural(stats.duplicates, 'repeated instruction')}` : '',
+        stats.jsonBlocks > 0 ? `Minified ${plural(stats.jsonBlocks, 'JSON block')}` : '',
+        stats.codeBlocks > 0 ? `Compacted ${plural(stats.codeBlocks, 'code block')}` : '',
+        'Normalized whitespace'
+    ].filter(Boolean);
+}
+
+// Replaces a phrase, keeping sentence capitalization intact when it starts a sentence
+function replacePhrase(text: string, pattern: RegExp, replacement: string, onMatch: () => void): string {
+    return text.replace(pattern, (match: string, ...args: unknown[]) => {
+        const offset = args[args.length - 2] as number;
+        onMatch();
+        const capitalized = /^\s*[A-Z]/.test(match);
+        if (!replacement) {
+            const startsSentence = /(?:^|[.!?:]\s+|\n[ \t]*(?:[-*+]|\d+[.)])?[ \t]*)$/.test(text.substring(0, offset));
+            return capitalized && startsSentence ? CAPITALIZE : '';
+        }
+        return capitalized ? replacement[0].toUpperCase() + replacement.substring(1) : replacement;
+    });
+}
+
+function removeRepeatedInstructions(text: string, stats: CompressionStats): string {
+    const seen = new Set<string>();
+    return (text.match(SENTENCE) || []).map(sentence => {
+        const key = sentence
+            .toLowerCase()
+            .replace(/^\s*(?:[-*+>]|\d+[.)])\s*/, '')
+            .replace(/[\s.!?]+$/, '')
+            .replace(/\s+/g, ' ')
+            // A removed leading filler leaves a marker that would make the repeat look different
+            .split(CAPITALIZE).join('');
+        if (key.split(' ').length < MIN_INSTRUCTION_WORDS || key.includes('\u0000')) {
+            return sentence;
+        }
+        if (seen.has(key)) {
+            stats.duplicates++;
+            return sentence.endsWith('\n') ? '\n' : '';
+        }
+        seen.add(key);
+        return sentence;
+    }).join('');
+}
+
+function normalizeWhitespace(text: string): string {
+    return text
+        .replace(/[ \t]+$/gm, '')
+        .replace(/(\S)[ \t]{2,}/g, '$1 ')
+        .replace(/[ \t]+([,.;:!?])/g, '$1')
+        .replace(/^[ \t]*(?:[-*+]|\d+[.)])[ \t]*$/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+function minifyBlock(body: string, language: string, stats: CompressionStats): string {
+    if (language === 'json' || language === 'jsonc') {
+        try {
+            const minified = JSON.stringify(JSON.parse(body));
+            stats.jsonBlocks++;
+            return minified;
+        } catch {
+            // Not strict JSON, e.g. with comments; compacted like code below
+        }
+    }
+    if (PRESERVED_BLOCKS.has(language)) {
+        return body;
+    }
+
+    const lines = body.split('\n').map(line => line.replace(/[ \t]+$/, '').replace(/^\t+/, tabs => '    '.repeat(tabs.length))).filter(line => line.trim());
+    const indents = lines.map(line => line.length - line.trimStart().length).filter(indent => indent > 0);
+    const unit = indents.reduce((a, b) => gcd(a, b), 0);
+    // One space per level keeps the structure, which is all indentation-sensitive languages need
+    const compacted = lines.map(line => {
+        const indent = line.length - line.trimStart().length;
+        return unit > 1 ? ' '.repeat(indent / unit) + line.trimStart() : line;
+    }).join('\n');
+
+    if (compacted !== body) {
+        stats.codeBlocks++;
+    }
+    return compacted;
+}
+
+// Multi-line JSON outside code fences, e.g. a pasted schema or example payload
+function minifyInlineJson(text: string, stats: CompressionStats, protect: (value: string) => string): string {
+    const start = /^[ \t]*([{[])/gm;
+    let result = '';
+    let position = 0;
+    let match: RegExpExecArray | null;
+    while ((match = start.exec(text))) {
+        const open = match.index + match[0].length - 1;
+        if (open < position) {
+            continue;
+        }
+        const close = findClosingBracket(text, open);
+        const candidate = close === undefined ? '' : text.substring(open, close + 1);
+        if (!candidate.includes('\n')) {
+            continue;
+        }
+        try {
+            const minified = JSON.stringify(JSON.parse(candidate));
+            stats.jsonBlocks++;
+            result += text.substring(position, open) + protect(minified);
+            position = close! + 1;
+            start.lastIndex = position;
+        } catch {
+            // Looks like JSON but is not, e.g. a template or JavaScript object
+        }
+    }
+    return result + text.substring(position);
+}
+
+function findClosingBracket(text: string, open: number): number | undefined {
+    let depth = 0;
+    let inString = false;
+    for (let i = open; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') {
+                i++;
+            } else if (char === '"') {
+                inString = false;
+            }
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) {
+                return i;
+            }
+        }
+    }
+    return undefined;
+}
+
+function gcd(a: number, b: number): number {
+    return b === 0 ? a : gcd(b, a % b);
+}
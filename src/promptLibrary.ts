@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+
+export type PromptCollection = 'user' | 'workspace';
+
+// A prompt as stored in a collection file
+export interface SavedPrompt {
+    id: string;
+    name: string;
+    original: string;
+    optimized: string;
+    tags: string[];
+    // Model the optimized version was tuned for
+    model: string;
+    originalTokens: number;
+    optimizedTokens: number;
+    createdAt: string;
+}
+
+export interface LibraryPrompt extends SavedPrompt {
+    collection: PromptCollection;
+    // Workspace folder holding the collection, for workspace prompts
+    folder?: vscode.WorkspaceFolder;
+    uses: number;
+    lastUsedAt?: string;
+}
+
+interface CollectionFile {
+    version: 1;
+    // Entries are validated when read, not when saved, so hand edits survive a save
+    prompts: unknown[];
+}
+
+interface PromptUsage {
+    uses: number;
+    lastUsedAt: string;
+}
+
+// Committed with the repository so the team shares its prompts
+export const WORKSPACE_LIBRARY_FILE = '.costkatana/prompts.json';
+const USER_LIBRARY_FILE = 'prompt-library.json';
+const USAGE_KEY = 'costKatana.promptUsage';
+const COMPLETION_PREFIX = /\bprompt:([\w-]*)$/;
+
+/**
+ * User and workspace prompt collections. Usage counts are kept per machine
+ * rather than in the shared file, so inserting a prompt never dirties the
+ * repository.
+ */
+export class PromptLibrary implements vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    private readonly disposables: vscode.Disposable[] = [this.changeEmitter];
+    private cache: LibraryPrompt[] | undefined;
+
+    constructor(
+        private readonly globalStorage: vscode.Uri,
+        private readonly state: vscode.Memento
+    ) {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${WORKSPACE_LIBRARY_FILE}`);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(() => this.invalidate()),
+            watcher.onDidChange(() => this.invalidate()),
+            watcher.onDidDelete(() => this.invalidate()),
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.invalidate())
+        );
+    }
+
+    // Every prompt, most used first
+    async list(): Promise<LibraryPrompt[]> {
+        if (!this.cache) {
+            const usage = this.state.get<Record<string, PromptUsage>>(USAGE_KEY, {});
+            const withUsage = (prompt: SavedPrompt, collection: PromptCollection, folder?: vscode.WorkspaceFolder): LibraryPrompt =>
+                ({ ...prompt, collection, folder, uses: usage[prompt.id]?.uses || 0, lastUsedAt: usage[prompt.id]?.lastUsedAt });
+
+            const user = (await readCollection(this.userFile)).map(prompt => withUsage(prompt, 'user'));
+            const workspace = await Promise.all((vscode.workspace.workspaceFolders || []).map(async folder =>
+                (await readCollection(vscode.Uri.joinPath(folder.uri, WORKSPACE_LIBRARY_FILE))).map(prompt => withUsage(prompt, 'workspace', folder))));
+
+            this.cache = [...user, ...workspace.flat()].sort(byRank);
+        }
+        return this.cache;
+    }
+
+    async save(prompt: Omit<SavedPrompt, 'id' | 'createdAt'>, collection: PromptCollection, folder?: vscode.WorkspaceFolder): Promise<vscode.Uri> {
+        const uri = collection === 'workspace' && folder ? vscode.Uri.joinPath(folder.uri, WORKSPACE_LIBRARY_FILE) : this.userFile;
+        // Strict, so a collection with a syntax error is reported instead of overwritten
+        const prompts = await readEntries(uri, true);
+        prompts.push({ id: randomUUID(), createdAt: new Date().toISOString(), ...prompt });
+
+        const file: CollectionFile = { version: 1, prompts };
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(JSON.stringify(file, null, 2) + '\n', 'utf8'));
+        this.invalidate();
+        return uri;
+    }
+
+    async recordUse(id: string) {
+        const usage = this.state.get<Record<string, PromptUsage>>(USAGE_KEY, {});
+        usage[id] = { uses: (usage[id]?.uses || 0) + 1, lastUsedAt: new Date().toISOString() };
+        await this.state.update(USAGE_KEY, usage);
+        this.invalidate();
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private get userFile(): vscode.Uri {
+        return vscode.Uri.joinPath(this.globalStorage, USER_LIBRARY_FILE);
+    }
+
+    private invalidate() {
+        this.cache = undefined;
+        this.changeEmitter.fire();
+    }
+}
+
+/**
+ * Completes `prompt:<name>` with a saved prompt, turning its template
+ * variables into snippet placeholders.
+ */
+export class PromptCompletionProvider implements vscode.CompletionItemProvider {
+    static readonly triggerCharacters = [':'];
+
+    constructor(private readonly library: PromptLibrary) {}
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[]> {
+        const prefix = COMPLETION_PREFIX.exec(document.lineAt(position.line).text.substring(0, position.character));
+        if (!prefix) {
+            return [];
+        }
+        const range = new vscode.Range(position.translate(0, -prefix[0].length), position);
+
+        return (await this.library.list()).map((prompt, rank) => {
+            const label = `prompt:${slugify(prompt.name)}`;
+            const item = new vscode.CompletionItem({ label, description: prompt.name }, vscode.CompletionItemKind.Snippet);
+            item.detail = describePrompt(prompt);
+            item.documentation = new vscode.MarkdownString().appendCodeblock(prompt.optimized, 'markdown');
+            item.insertText = toSnippet(prompt.optimized);
+            item.filterText = `${label} ${prompt.tags.join(' ')}`;
+            item.range = range;
+            // The library is already ranked by use, and the editor would otherwise sort by label
+            item.sortText = String(rank).padStart(5, '0');
+            item.command = { command: 'cost-katana.record-prompt-use', title: 'Record Prompt Use', arguments: [prompt.id] };
+            return item;
+        });
+    }
+}
+
+export function describePrompt(prompt: LibraryPrompt): string {
+    const tokens = prompt.originalTokens > prompt.optimizedTokens
+        ? `${prompt.optimizedTokens} tokens (was ${prompt.originalTokens})`
+        : `${prompt.optimizedTokens} tokens`;
+    const collection = prompt.collection === 'workspace' ? `workspace: ${prompt.folder?.name}` : 'user';
+    return `${tokens} • ${prompt.model} • used ${prompt.uses} time${prompt.uses === 1 ? '' : 's'} • ${collection}`;
+}
+
+// Template variables such as {{topic}} or {topic} become tab stops
+export function toSnippet(text: string): vscode.SnippetString {
+    const snippet = new vscode.SnippetString();
+    const variables = new Map<string, number>();
+    const variable = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}|(?<!\{)\{([A-Za-z_]\w*)\}(?!\})/g;
+    let position = 0;
+    let match: RegExpExecArray | null;
+    while ((match = variable.exec(text))) {
+        const name = match[1] || match[2];
+        if (!variables.has(name)) {
+            variables.set(name, variables.size + 1);
+        }
+        snippet.appendText(text.substring(position, match.index));
+        snippet.appendPlaceholder(name, variables.get(name));
+        position = match.index + match[0].length;
+    }
+    return snippet.appendText(text.substring(position));
+}
+
+function byRank(a: LibraryPrompt, b: LibraryPrompt): number {
+    return b.uses - a.uses
+        || (b.lastUsedAt || '').localeCompare(a.lastUsedAt || '')
+        || a.name.localeCompare(b.name);
+}
+
+function slugify(name: string): string {
+    return name.toLowerCase().replace(/[^\w]+/g, '-').replace(/^-|-$/g, '') || 'prompt';
+}
+
+// Usable prompts only, for display and insertion
+async function readCollection(uri: vscode.Uri): Promise<SavedPrompt[]> {
+    return (await readEntries(uri))
+        .filter(isSavedPrompt)
+        .map(normalizePrompt);
+}
+
+// The `prompts` array exactly as written
+async function readEntries(uri: vscode.Uri, strict = false): Promise<unknown[]> {
+    let text: string;
+    try {
+        text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch {
+        return [];
+    }
+
+    try {
+        const parsed = JSON.parse(text) as Partial<CollectionFile>;
+        return Array.isArray(parsed?.prompts) ? parsed.prompts : [];
+    } catch (error) {
+        if (strict) {
+            throw new Error(`${vscode.workspace.asRelativePath(uri)} is not valid JSON`);
+        }
+        vscode.window.showWarningMessage(`Ignoring ${vscode.workspace.asRelativePath(uri)}: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+        return [];
+    }
+}
+
+function isSavedPrompt(value: unknown): value is SavedPrompt {
+    const prompt = value as Partial<SavedPrompt> | null;
+    return typeof prompt === 'object' && prompt !== null
+        && typeof prompt.id === 'string' && typeof prompt.name === 'string' && typeof prompt.optimized === 'string';
+}
+
+// Hand-edited collections may leave out fields; the rest of the library relies on their types
+function normalizePrompt(prompt: SavedPrompt): SavedPrompt {
+    const tokens = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : 0;
+    return {
+        ...prompt,
+        original: typeof prompt.original === 'string' ? prompt.original : prompt.optimized,
+        tags: Array.isArray(prompt.tags) ? prompt.tags.filter(tag => typeof tag === 'string') : [],
+        model: typeof prompt.model === 'string' ? prompt.model : 'unknown',
+        originalTokens: tokens(prompt.originalTokens),
+        optimizedTokens: tokens(prompt.optimizedTokens),
+        createdAt: typeof prompt.createdAt === 'string' ? prompt.createdAt : ''
+    };
+}
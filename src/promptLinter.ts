@@ -0,0 +1,361 @@
+import * as vscode from 'vscode';
+import { countTokens } from './tokenizer';
+
+const RULES = ['repeated-instruction', 'excessive-whitespace', 'duplicated-example', 'long-preamble', 'unused-variable'] as const;
+export type PromptLintRule = typeof RULES[number];
+
+interface Finding {
+    rule: PromptLintRule;
+    range: vscode.Range;
+    message: string;
+}
+
+interface Block {
+    text: string;
+    start: number;
+    end: number;
+}
+
+export const DEFAULT_PROMPT_FILES = [
+    '**/prompts/**/*.{md,txt,yaml,yml}',
+    '**/*.prompt',
+    '**/*.prompty',
+    '**/*.prompt.{md,yaml,yml}',
+    '**/*.{hbs,handlebars,mustache,j2,jinja,jinja2}'
+];
+
+const FRONT_MATTER = /^---[ \t]*\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/;
+const FENCE = /^[ \t]*(```|~~~)/;
+// Instructions shorter than this are too generic to call repeats, e.g. "Be concise."
+const MIN_INSTRUCTION_WORDS = 5;
+const MIN_EXAMPLE_LENGTH = 40;
+const BLANK_RUN = /\n(?:[ \t]*\r?\n){2,}/g;
+const INLINE_RUN = /(?<=\S)[ \t]{3,}(?=\S)/g;
+const WHITESPACE_CONTEXT = 20;
+
+// Template references in handlebars/mustache, jinja, f-string and JS template syntaxes
+const REFERENCE_PATTERNS = [/\{\{([^}]*)\}\}/g, /\{%([^%]*)%\}/g, /(?<!\{)\{(\w+)\}(?!\})/g, /\$\{(\w+)\}/g];
+// `input_variables: [a, b]` as used by LangChain prompt files
+const INLINE_VARIABLE_LIST = /^[ \t]*(?:input_variables|variables|inputs)[ \t]*:[ \t]*\[([^\]]*)\]/gm;
+// Mapping or list of variables under `inputs:` (Prompty), `input_variables:` or Dotprompt's `input: schema:`
+const VARIABLE_SECTION = /^([ \t]*)(?:input_variables|variables|inputs|schema)[ \t]*:[ \t]*$/gm;
+
+// Where the system preamble starts and ends, per prompt format
+const SYSTEM_MARKERS: Array<{ start: RegExp; end: RegExp }> = [
+    // Markdown heading
+    { start: /^#{1,6}[ \t]+system\b.*$/im, end: /^#{1,6}[ \t]+\S/m },
+    // Dotprompt role helper
+    { start: /\{\{\s*role\s+["']system["']\s*\}\}/i, end: /\{\{\s*role\s+["']/i },
+    // Prompty role line
+    { start: /^system[ \t]*:[ \t]*$/im, end: /^(?:user|assistant)[ \t]*:/im },
+    { start: /<system>/i, end: /<\/system>/i }
+];
+// YAML key holding the system prompt; the value ends where indentation does
+const YAML_SYSTEM_KEY = /^([ \t]*)(?:system|system_prompt|systemPrompt)[ \t]*:[ \t]*[|>]?[-+]?[ \t]*$/m;
+
+/**
+ * Lints prompt files on save for token waste: repeated instructions,
+ * excessive whitespace, duplicated examples, over-long system preambles
+ * and unused template variables. Every diagnostic offers to run the
+ * backend optimizer on its range.
+ */
+export class PromptLinter implements vscode.CodeActionProvider, vscode.Disposable {
+    static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly diagnostics = vscode.languages.createDiagnosticCollection('costKatanaPrompts');
+    private readonly disposables: vscode.Disposable[] = [this.diagnostics];
+
+    constructor(private readonly defaultModelFor: (uri: vscode.Uri) => string) {
+        this.disposables.push(
+            vscode.workspace.onDidSaveTextDocument(document => this.lint(document)),
+            vscode.workspace.onDidOpenTextDocument(document => this.lint(document)),
+            vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('costKatana.promptLinter')) {
+                    this.lintAll();
+                }
+            })
+        );
+        this.lintAll();
+    }
+
+    lintAll() {
+        vscode.workspace.textDocuments.forEach(document => this.lint(document));
+    }
+
+    isPromptFile(document: vscode.TextDocument): boolean {
+        const config = vscode.workspace.getConfiguration('costKatana.promptLinter', document.uri);
+        return document.uri.scheme === 'file'
+            && config.get<boolean>('enabled', true)
+            && config.get<string[]>('files', DEFAULT_PROMPT_FILES).some(pattern => vscode.languages.match({ pattern }, document) > 0);
+    }
+
+    lint(document: vscode.TextDocument) {
+        if (!this.isPromptFile(document)) {
+            this.diagnostics.delete(document.uri);
+            return;
+        }
+
+        const model = this.defaultModelFor(document.uri);
+        const tokens = (text: string) => countTokens(text, model);
+        const maxPreambleTokens = vscode.workspace
+            .getConfiguration('costKatana.promptLinter', document.uri)
+            .get<number>('maxPreambleTokens', 400);
+
+        const findings = [
+            ...findDuplicates(document, tokens),
+            ...findExcessiveWhitespace(document, tokens),
+            ...findLongPreamble(document, tokens, maxPreambleTokens),
+            ...findUnusedVariables(document)
+        ];
+
+        this.diagnostics.set(document.uri, findings.map(finding => {
+            const diagnostic = new vscode.Diagnostic(finding.range, finding.message, vscode.DiagnosticSeverity.Warning);
+            diagnostic.source = 'Cost Katana';
+            diagnostic.code = finding.rule;
+            if (finding.rule === 'excessive-whitespace') {
+                diagnostic.tags = [vscode.DiagnosticTag.Unnecessary];
+            }
+            return diagnostic;
+        }));
+    }
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        return context.diagnostics
+            .filter(diagnostic => diagnostic.source === 'Cost Katana' && RULES.includes(diagnostic.code as PromptLintRule))
+            .map(diagnostic => {
+                // Whitespace runs and variable names are too small to optimize on their own
+                const range = diagnostic.code === 'excessive-whitespace' || diagnostic.code === 'unused-variable'
+                    ? getBodyRange(document)
+                    : diagnostic.range;
+                const action = new vscode.CodeAction('Optimize with Cost Katana', vscode.CodeActionKind.QuickFix);
+                action.command = { command: 'cost-katana.optimize-prompt', title: 'Optimize with Cost Katana', arguments: [document.uri, range] };
+                action.diagnostics = [diagnostic];
+                return action;
+            });
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+// The prompt itself, without any front matter
+function getBodyRange(document: vscode.TextDocument): vscode.Range {
+    const text = document.getText();
+    const frontMatter = FRONT_MATTER.exec(text);
+    return new vscode.Range(document.positionAt(frontMatter ? frontMatter[0].length : 0), document.positionAt(text.length));
+}
+
+function findDuplicates(document: vscode.TextDocument, tokens: (text: string) => number): Finding[] {
+    const text = document.getText();
+    const bodyStart = document.offsetAt(getBodyRange(document).start);
+    const findings: Finding[] = [];
+    const toRange = (start: number, end: number) => new vscode.Range(document.positionAt(start), document.positionAt(end));
+
+    // Whole blocks first, so sentences inside a duplicated example are not reported again
+    const seenBlocks = new Map<string, number>();
+    const duplicated: Array<[number, number]> = [];
+    for (const block of splitBlocks(text, bodyStart)) {
+        const key = normalize(block.text);
+        if (key.length < MIN_EXAMPLE_LENGTH || !block.text.includes('\n') && !FENCE.test(block.text)) {
+            continue;
+        }
+        const first = seenBlocks.get(key);
+        if (first === undefined) {
+            seenBlocks.set(key, block.start);
+            continue;
+        }
+        duplicated.push([block.start, block.end]);
+        findings.push({
+            rule: 'duplicated-example',
+            range: toRange(block.start, block.end),
+            message: `Duplicates the example on line ${document.positionAt(first).line + 1} (~${tokens(block.text)} tokens per request)`
+        });
+    }
+
+    const seenSentences = new Map<string, number>();
+    const sentence = /[^.!?\n]+[.!?]?/g;
+    sentence.lastIndex = bodyStart;
+    let match: RegExpExecArray | null;
+    while ((match = sentence.exec(text))) {
+        const start = match.index + match[0].length - match[0].trimStart().length;
+        const value = match[0].trim();
+        const key = normalize(value.replace(/^(?:[-*+>#]|\d+[.)])\s*/, '')).replace(/[.!?]$/, '');
+        if (key.split(' ').length < MIN_INSTRUCTION_WORDS || duplicated.some(([from, to]) => start >= from && start < to)) {
+            continue;
+        }
+        const first = seenSentences.get(key);
+        if (first === undefined) {
+            seenSentences.set(key, start);
+            continue;
+        }
+        findings.push({
+            rule: 'repeated-instruction',
+            range: toRange(start, start + value.length),
+            message: `Repeats the instruction on line ${document.positionAt(first).line + 1} (~${tokens(value)} tokens per request)`
+        });
+    }
+
+    return findings;
+}
+
+function findExcessiveWhitespace(document: vscode.TextDocument, tokens: (text: string) => number): Finding[] {
+    const text = document.getText();
+    const findings: Finding[] = [];
+    // Alignment spaces are structural in YAML, so only blank lines are checked there
+    const patterns: Array<[RegExp, string]> = document.languageId === 'yaml'
+        ? [[BLANK_RUN, '\n\n']]
+        : [[BLANK_RUN, '\n\n'], [INLINE_RUN, ' ']];
+
+    for (const [pattern, replacement] of patterns) {
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text))) {
+            // Whitespace merges with neighbouring tokens, so it is counted in context
+            const before = text.substring(Math.max(0, match.index - WHITESPACE_CONTEXT), match.index);
+            const after = text.substr(match.index + match[0].length, WHITESPACE_CONTEXT);
+            const saved = tokens(before + match[0] + after) - tokens(before + replacement + after);
+            if (saved > 0) {
+                findings.push({
+                    rule: 'excessive-whitespace',
+                    range: new vscode.Range(document.positionAt(match.index), document.positionAt(match.index + match[0].length)),
+                    message: `Excessive whitespace (~${saved} token${saved === 1 ? '' : 's'} per request)`
+                });
+            }
+        }
+    }
+    return findings;
+}
+
+function findLongPreamble(document: vscode.TextDocument, tokens: (text: string) => number, maxTokens: number): Finding[] {
+    const text = document.getText();
+    const markers = document.languageId === 'yaml' ? [{ start: YAML_SYSTEM_KEY, end: undefined }] : SYSTEM_MARKERS;
+
+    for (const { start, end } of markers) {
+        const marker = start.exec(text);
+        if (!marker) {
+            continue;
+        }
+        const from = marker.index + marker[0].length;
+        const rest = text.substring(from);
+        const preamble = rest.substring(0, end ? end.exec(rest)?.index ?? rest.length : getIndentedLength(rest, marker[1].length));
+        const count = tokens(preamble);
+        if (count <= maxTokens) {
+            return [];
+        }
+        return [{
+            rule: 'long-preamble',
+            range: new vscode.Range(document.positionAt(marker.index), document.positionAt(from + preamble.trimEnd().length)),
+            message: `System preamble is ~${count} tokens, ${count - maxTokens} over the ${maxTokens} token limit, and is sent with every request`
+        }];
+    }
+    return [];
+}
+
+// Length of the lines indented deeper than `indent`, starting after the key's own line
+function getIndentedLength(text: string, indent: number): number {
+    let length = 0;
+    for (const [index, line] of text.split('\n').entries()) {
+        if (index > 0 && line.trim() && line.length - line.trimStart().length <= indent) {
+            break;
+        }
+        length += line.length + 1;
+    }
+    return Math.min(length, text.length);
+}
+
+function findUnusedVariables(document: vscode.TextDocument): Finding[] {
+    const text = document.getText();
+    const referenced = new Set<string>();
+    for (const pattern of REFERENCE_PATTERNS) {
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(text))) {
+            (match[1].match(/[A-Za-z_]\w*/g) || []).forEach(name => referenced.add(name));
+        }
+    }
+
+    const findings: Finding[] = [];
+    for (const { name, offset } of findDeclaredVariables(text)) {
+        if (!referenced.has(name)) {
+            findings.push({
+                rule: 'unused-variable',
+                range: new vscode.Range(document.positionAt(offset), document.positionAt(offset + name.length)),
+                message: `Template variable "${name}" is declared but never used; it adds no tokens now, but callers still build and pass its value`
+            });
+        }
+    }
+    return findings;
+}
+
+// Variables declared in front matter or YAML, with the offset of each name
+function findDeclaredVariables(text: string): Array<{ name: string; offset: number }> {
+    const declared: Array<{ name: string; offset: number }> = [];
+
+    INLINE_VARIABLE_LIST.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = INLINE_VARIABLE_LIST.exec(text))) {
+        const listStart = match.index + match[0].indexOf('[') + 1;
+        const name = /[A-Za-z_]\w*/g;
+        let item: RegExpExecArray | null;
+        while ((item = name.exec(match[1]))) {
+            declared.push({ name: item[0], offset: listStart + item.index });
+        }
+    }
+
+    VARIABLE_SECTION.lastIndex = 0;
+    while ((match = VARIABLE_SECTION.exec(text))) {
+        const indent = match[1].length;
+        let offset = match.index + match[0].length + 1;
+        let childIndent: number | undefined;
+        for (const line of text.substring(offset).split('\n')) {
+            const lineIndent = line.length - line.trimStart().length;
+            if (line.trim() && lineIndent <= indent) {
+                break;
+            }
+            // Only direct children are variable names; deeper lines describe them
+            const entry = /^([ \t]+)(?:-[ \t]+)?([A-Za-z_]\w*)\??(?=[ \t]*(?:[:(,]|$))/.exec(line);
+            if (entry && (childIndent === undefined || entry[1].length === childIndent)) {
+                childIndent = entry[1].length;
+                declared.push({ name: entry[2], offset: offset + line.indexOf(entry[2], entry[1].length) });
+            }
+            offset += line.length + 1;
+        }
+    }
+    return declared;
+}
+
+// Paragraphs separated by blank lines, with fenced code blocks kept whole
+function splitBlocks(text: string, from: number): Block[] {
+    const blocks: Block[] = [];
+    let current: Block | undefined;
+    let inFence = false;
+    let offset = from;
+
+    for (const line of text.substring(from).split('\n')) {
+        const fence = FENCE.test(line);
+        if (!inFence && !line.trim()) {
+            if (current) {
+                blocks.push(current);
+            }
+            current = undefined;
+        } else {
+            current = current
+                ? { ...current, text: `${current.text}\n${line}`, end: offset + line.length }
+                : { text: line, start: offset, end: offset + line.length };
+            if (fence) {
+                inFence = !inFence;
+            }
+        }
+        offset += line.length + 1;
+    }
+    if (current) {
+        blocks.push(current);
+    }
+    return blocks;
+}
+
+function normalize(text: string): string {
+    return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
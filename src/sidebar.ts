@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import { CostKatanaAPI, Project, RecentActivity, Suggestion } from './api';
+import { ProjectConfigService } from './projectConfig';
+
+export interface TrackedInteraction extends RecentActivity {
+    prompt?: string;
+    filePath?: string;
+}
+
+const SESSION_ACTIVITY_LIMIT = 50;
+// The backend timestamps a request when it records it, slightly after the local copy
+const SAME_ACTIVITY_WINDOW_MS = 2 * 60 * 1000;
+
+export class ActivityItem extends vscode.TreeItem {
+    constructor(public readonly activity: TrackedInteraction) {
+        super(activity.model, vscode.TreeItemCollapsibleState.None);
+
+        const when = new Date(activity.timestamp);
+        this.description = `$${activity.cost} • ${activity.tokens} tokens • ${when.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+        this.iconPath = new vscode.ThemeIcon('pulse');
+
+        const tooltip = new vscode.MarkdownString();
+        tooltip.appendMarkdown(`**${activity.model}** — $${activity.cost} (${activity.tokens} tokens)\n\n`);
+        tooltip.appendMarkdown(`${when.toLocaleString()}\n\n`);
+        if (activity.filePath) {
+            tooltip.appendMarkdown(`File: \`${vscode.workspace.asRelativePath(activity.filePath)}\`\n\n`);
+        }
+        if (activity.prompt) {
+            tooltip.appendCodeblock(activity.prompt.substring(0, 500), 'text');
+        }
+        this.tooltip = tooltip;
+
+        // e.g. "activity.prompt.file" so menus can match on what the item supports
+        this.contextValue = ['activity', activity.prompt ? 'prompt' : '', activity.filePath ? 'file' : '']
+            .filter(Boolean)
+            .join('.');
+
+        if (activity.filePath) {
+            this.command = {
+                command: 'cost-katana.open-item-file',
+                title: 'Open File',
+                arguments: [this]
+            };
+        }
+    }
+
+    get filePath(): string | undefined {
+        return this.activity.filePath;
+    }
+}
+
+/**
+ * Recent interactions: backend `recent_activity` merged with the
+ * interactions tracked from this window, newest first.
+ */
+export class ActivityTreeProvider implements vscode.TreeDataProvider<ActivityItem> {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private remoteActivity: RecentActivity[] = [];
+    private sessionActivity: TrackedInteraction[] = [];
+    private filterText: string | undefined;
+
+    get filter(): string | undefined {
+        return this.filterText;
+    }
+
+    setRemoteActivity(activity: RecentActivity[]) {
+        this.remoteActivity = activity || [];
+        this.changeEmitter.fire();
+    }
+
+    addInteraction(interaction: TrackedInteraction) {
+        this.sessionActivity = [interaction, ...this.sessionActivity].slice(0, SESSION_ACTIVITY_LIMIT);
+        this.changeEmitter.fire();
+    }
+
+    setFilter(filterText: string | undefined) {
+        this.filterText = filterText?.trim().toLowerCase() || undefined;
+        vscode.commands.executeCommand('setContext', 'costKatana.activityFiltered', !!this.filterText);
+        this.changeEmitter.fire();
+    }
+
+    getTreeItem(element: ActivityItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(): ActivityItem[] {
+        // Backend entries already reported from this session are dropped in favour of the richer local copy
+        const merged: TrackedInteraction[] = [
+            ...this.sessionActivity,
+            ...this.remoteActivity.filter(activity => !this.sessionActivity.some(session => isSameActivity(session, activity)))
+        ];
+
+        return merged
+            .filter(activity => !this.filterText || [activity.model, activity.filePath, activity.prompt]
+                .some(value => value?.toLowerCase().includes(this.filterText!)))
+            .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+            .map(activity => new ActivityItem(activity));
+    }
+}
+
+export class ProjectItem extends vscode.TreeItem {
+    constructor(public readonly project: Project, active: boolean, boundFolders: string[]) {
+        super(project.name, vscode.TreeItemCollapsibleState.None);
+        this.description = boundFolders.length > 0 ? `→ ${boundFolders.join(', ')}` : undefined;
+        this.tooltip = project.description || project.name;
+        this.iconPath = new vscode.ThemeIcon(active ? 'pass-filled' : 'project');
+        this.contextValue = active ? 'project.active' : 'project';
+    }
+}
+
+/**
+ * Backend projects for the signed-in user. The project the active
+ * editor's usage is attributed to is marked active.
+ */
+export class ProjectsTreeProvider implements vscode.TreeDataProvider<ProjectItem | vscode.TreeItem>, vscode.Disposable {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private projects: Project[] | undefined;
+    private loadError: string | undefined;
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly api: CostKatanaAPI,
+        private readonly projectConfigs: ProjectConfigService
+    ) {
+        this.disposables.push(
+            projectConfigs.onDidChange(() => this.changeEmitter.fire()),
+            vscode.window.onDidChangeActiveTextEditor(() => this.changeEmitter.fire()),
+            this.changeEmitter
+        );
+    }
+
+    refresh() {
+        this.projects = undefined;
+        this.changeEmitter.fire();
+    }
+
+    getTreeItem(element: ProjectItem | vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(): Promise<Array<ProjectItem | vscode.TreeItem>> {
+        if (!this.projects) {
+            await this.load();
+        }
+
+        if (this.loadError) {
+            const item = new vscode.TreeItem(`Failed to load projects: ${this.loadError}`);
+            item.iconPath = new vscode.ThemeIcon('error');
+            return [item];
+        }
+
+        const activeId = this.projectConfigs.resolve(vscode.window.activeTextEditor?.document.uri).projectId;
+        const folders = vscode.workspace.workspaceFolders || [];
+        return (this.projects || []).map(project => new ProjectItem(
+            project,
+            project.id === activeId,
+            folders.filter(folder => this.projectConfigs.resolve(folder.uri).projectId === project.id).map(folder => folder.name)
+        ));
+    }
+
+    private async load() {
+        this.loadError = undefined;
+        if (!(await this.api.hasApiKey())) {
+            this.projects = [];
+            return;
+        }
+
+        const result = await this.api.getProjects();
+        if (result.success && result.data) {
+            this.projects = result.data.projects;
+        } else {
+            this.projects = [];
+            this.loadError = result.error || 'Unknown error';
+        }
+    }
+
+    dispose() {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
+
+export class SuggestionItem extends vscode.TreeItem {
+    constructor(public readonly suggestion: Suggestion, public readonly filePath: string | undefined) {
+        super(suggestion.title, vscode.TreeItemCollapsibleState.None);
+        this.description = suggestion.priority;
+        this.tooltip = new vscode.MarkdownString(`**${suggestion.title}**\n\n${suggestion.description}`);
+        this.iconPath = new vscode.ThemeIcon(
+            'lightbulb',
+            suggestion.priority?.toLowerCase() === 'high'
+                ? new vscode.ThemeColor('list.warningForeground')
+                : undefined
+        );
+        this.contextValue = filePath ? 'suggestion.file' : 'suggestion';
+
+        if (filePath) {
+            this.command = {
+                command: 'cost-katana.open-item-file',
+                title: 'Open File',
+                arguments: [this]
+            };
+        }
+    }
+}
+
+/**
+ * The latest suggestions returned by `getSuggestions`.
+ */
+export class SuggestionsTreeProvider implements vscode.TreeDataProvider<SuggestionItem> {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this.changeEmitter.event;
+
+    private suggestions: Suggestion[] = [];
+    private filePath: string | undefined;
+
+    get sourceFile(): string | undefined {
+        return this.filePath;
+    }
+
+    setSuggestions(suggestions: Suggestion[], filePath: string | undefined) {
+        this.suggestions = suggestions;
+        this.filePath = filePath;
+        this.changeEmitter.fire();
+    }
+
+    getTreeItem(element: SuggestionItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(): SuggestionItem[] {
+        const order: Record<string, number> = { high: 0, medium: 1, low: 2 };
+        return [...this.suggestions]
+            .sort((a, b) => (order[a.priority?.toLowerCase()] ?? 3) - (order[b.priority?.toLowerCase()] ?? 3))
+            .map(suggestion => new SuggestionItem(suggestion, this.filePath));
+    }
+}
+
+// Matched on the usage id when both sides have one, otherwise on identical figures recorded around the same time
+function isSameActivity(session: TrackedInteraction, remote: RecentActivity): boolean {
+    if (session.usage_id && remote.usage_id) {
+        return session.usage_id === remote.usage_id;
+    }
+    return session.model === remote.model && session.tokens === remote.tokens && session.cost === remote.cost
+        && Math.abs(Date.parse(session.timestamp) - Date.parse(remote.timestamp)) <= SAME_ACTIVITY_WINDOW_MS;
+}
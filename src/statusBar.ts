@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import { AnalyticsData } from './api';
+import { formatPercent, parseBudgetPercent } from './budgetAlerts';
+import { exceedsBudget, PeriodForecast, SpendForecast } from './costForecast';
+import { formatCost } from './pricing';
+
+type BudgetLevel = 'normal' | 'warning' | 'critical';
+
+const RECENT_ACTIVITY_LIMIT = 5;
+const SPARK_BARS = '▁▂▃▄▅▆▇█';
+
+/**
+ * Month-to-date spend meter in the status bar. Replaces the old
+ * once-a-minute popup; threshold notifications are left to
+ * BudgetAlertManager.
+ */
+export class SpendStatusBar implements vscode.Disposable {
+    private readonly item: vscode.StatusBarItem;
+    private forecast: SpendForecast | undefined;
+    // Rebuilds the current tooltip when the forecast changes
+    private renderTooltip: (() => void) | undefined;
+
+    constructor() {
+        this.item = vscode.window.createStatusBarItem('costKatana.spend', vscode.StatusBarAlignment.Right, 100);
+        this.item.name = 'Cost Katana Spend';
+        this.item.command = 'cost-katana.show-analytics';
+        this.showLoading();
+        this.item.show();
+    }
+
+    update(analytics: AnalyticsData) {
+        const { summary, cursor_specific: cursorSpecific } = analytics;
+        const budgetPercent = parseBudgetPercent(summary.budget_used);
+        const level = this.getLevel(budgetPercent);
+
+        this.item.command = 'cost-katana.show-analytics';
+        this.item.text = `$(graph) $${summary.total_spending_this_month || '0.00'}` +
+            (budgetPercent !== undefined ? ` • ${formatPercent(budgetPercent)}` : '');
+        this.item.backgroundColor = level === 'critical'
+            ? new vscode.ThemeColor('statusBarItem.errorBackground')
+            : level === 'warning'
+                ? new vscode.ThemeColor('statusBarItem.warningBackground')
+                : undefined;
+        this.renderTooltip = () => {
+            this.item.tooltip = this.buildTooltip(analytics, budgetPercent);
+        };
+        this.renderTooltip();
+    }
+
+    setForecast(forecast: SpendForecast | undefined) {
+        this.forecast = forecast;
+        this.renderTooltip?.();
+    }
+
+    // `localAnalytics` comes from the usage ledger and only covers usage tracked on this machine
+    showOffline(localAnalytics?: AnalyticsData) {
+        this.item.backgroundColor = undefined;
+        this.item.command = 'cost-katana.health-check';
+        if (!localAnalytics || localAnalytics.cursor_specific.total_requests === 0) {
+            this.renderTooltip = undefined;
+            this.item.text = '$(debug-disconnect) Cost Katana';
+            this.item.tooltip = 'Cost Katana backend unreachable. Spend will update once the connection is restored.';
+            return;
+        }
+
+        this.item.text = `$(debug-disconnect) $${localAnalytics.summary.total_spending_this_month} (local)`;
+        this.renderTooltip = () => {
+            this.item.tooltip = this.buildTooltip(
+                localAnalytics,
+                undefined,
+                '$(debug-disconnect) Backend unreachable. Showing usage tracked on this machine.\n\n'
+            );
+        };
+        this.renderTooltip();
+    }
+
+    showSignedOut() {
+        this.renderTooltip = undefined;
+        this.item.text = '$(account) Cost Katana';
+        this.item.backgroundColor = undefined;
+        this.item.command = 'cost-katana.connect-account';
+        this.item.tooltip = 'Connect your Cost Katana account to see your spend';
+    }
+
+    dispose() {
+        this.item.dispose();
+    }
+
+    private showLoading() {
+        this.renderTooltip = undefined;
+        this.item.text = '$(sync~spin) Cost Katana';
+        this.item.tooltip = 'Loading spend...';
+    }
+
+    private getLevel(budgetPercent: number | undefined): BudgetLevel {
+        if (budgetPercent === undefined) {
+            return 'normal';
+        }
+        const { warningThreshold, criticalThreshold } = getThresholds();
+        if (budgetPercent >= criticalThreshold) {
+            return 'critical';
+        }
+        return budgetPercent >= warningThreshold ? 'warning' : 'normal';
+    }
+
+    private buildTooltip(analytics: AnalyticsData, budgetPercent: number | undefined, note?: string): vscode.MarkdownString {
+        const { summary, cursor_specific: cursorSpecific } = analytics;
+        const tooltip = new vscode.MarkdownString(undefined, true);
+
+        tooltip.appendMarkdown('**Cost Katana**\n\n');
+        if (note) {
+            tooltip.appendMarkdown(note);
+        }
+        tooltip.appendMarkdown(`$(credit-card) Month to date: **$${summary.total_spending_this_month || '0.00'}**\n\n`);
+        if (budgetPercent !== undefined) {
+            tooltip.appendMarkdown(`$(pie-chart) Budget used: **${formatPercent(budgetPercent)}**\n\n`);
+        }
+        if (this.forecast) {
+            this.appendForecast(tooltip, this.forecast);
+        }
+
+        const recent = (cursorSpecific?.recent_activity || []).slice(0, RECENT_ACTIVITY_LIMIT);
+        if (recent.length > 0) {
+            tooltip.appendMarkdown('| Model | Tokens | Cost | When |\n|---|---:|---:|---|\n');
+            for (const activity of recent) {
+                const when = new Date(activity.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+                tooltip.appendMarkdown(`| ${escapeTableCell(activity.model)} | ${activity.tokens} | $${escapeTableCell(String(activity.cost))} | ${when} |\n`);
+            }
+            tooltip.appendMarkdown('\n');
+        } else {
+            tooltip.appendMarkdown('_No recent activity_\n\n');
+        }
+
+        tooltip.appendMarkdown(note ? 'Click to check the connection' : 'Click to open analytics');
+        return tooltip;
+    }
+
+    private appendForecast(tooltip: vscode.MarkdownString, forecast: SpendForecast) {
+        const band = (period: PeriodForecast) => `${formatCost(period.low)}–${formatCost(period.high)}`;
+        tooltip.appendMarkdown(`$(graph-line) Month-end forecast: **${formatCost(forecast.month.projected)}** (${band(forecast.month)})\n\n`);
+        if (exceedsBudget(forecast)) {
+            tooltip.appendMarkdown(`$(warning) Projected to exceed the ${formatCost(forecast.budget!)} budget\n\n`);
+        }
+        tooltip.appendMarkdown(`$(calendar) ${forecast.quarter.label} forecast: **${formatCost(forecast.quarter.projected)}** (${band(forecast.quarter)})\n\n`);
+        tooltip.appendMarkdown(`Last ${forecast.recentDays.length} days: \`${sparkline(forecast.recentDays.map(day => day.cost))}\` ` +
+            `_${Math.round(forecast.confidence * 100)}% ranges from tracked usage_\n\n`);
+    }
+}
+
+function sparkline(values: number[]): string {
+    const max = Math.max(...values);
+    return values
+        .map(value => max > 0 ? SPARK_BARS[Math.min(Math.floor((value / max) * SPARK_BARS.length), SPARK_BARS.length - 1)] : SPARK_BARS[0])
+        .join('');
+}
+
+function getThresholds() {
+    const config = vscode.workspace.getConfiguration('costKatana.statusBar');
+    return {
+        warningThreshold: config.get<number>('warningThreshold', 75),
+        criticalThreshold: config.get<number>('criticalThreshold', 90)
+    };
+}
+
+function escapeTableCell(value: string): string {
+    return value.replace(/[|\\`*_[\]<>]/g, '\\$&');
+}
@@ -0,0 +1,91 @@
+import { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+
+export type TokenizerFamily = 'o200k' | 'cl100k' | 'anthropic' | 'google' | 'deepseek' | 'grok';
+
+type Encoding = 'o200k_base' | 'cl100k_base';
+
+interface Calibration {
+    encoding: Encoding;
+    // Provider tokens per BPE token for mostly Latin text and code
+    latinRatio: number;
+    // Provider tokens per BPE token for CJK text
+    cjkRatio: number;
+}
+
+// Providers without a public tokenizer are approximated from an OpenAI
+// encoding, scaled by ratios measured against their billed token counts.
+const CALIBRATIONS: Record<TokenizerFamily, Calibration> = {
+    o200k: { encoding: 'o200k_base', latinRatio: 1, cjkRatio: 1 },
+    cl100k: { encoding: 'cl100k_base', latinRatio: 1, cjkRatio: 1 },
+    anthropic: { encoding: 'cl100k_base', latinRatio: 1.16, cjkRatio: 1.25 },
+    google: { encoding: 'o200k_base', latinRatio: 1.05, cjkRatio: 0.9 },
+    deepseek: { encoding: 'cl100k_base', latinRatio: 1, cjkRatio: 0.7 },
+    grok: { encoding: 'o200k_base', latinRatio: 1, cjkRatio: 1 }
+};
+
+const FAMILY_PATTERNS: Array<[RegExp, TokenizerFamily]> = [
+    [/^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d)/, 'o200k'],
+    [/^(gpt-4|gpt-3\.5|text-embedding)/, 'cl100k'],
+    [/^claude/, 'anthropic'],
+    [/^(gemini|gemma)/, 'google'],
+    [/^deepseek/, 'deepseek'],
+    [/^grok/, 'grok']
+];
+
+// Rank tables are several megabytes each, so they are only loaded when first needed
+const RANK_MODULES: Record<Encoding, string> = {
+    o200k_base: 'js-tiktoken/ranks/o200k_base',
+    cl100k_base: 'js-tiktoken/ranks/cl100k_base'
+};
+
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/g;
+
+const encoders = new Map<Encoding, Tiktoken | null>();
+
+export function getTokenizerFamily(model: string): TokenizerFamily {
+    const normalized = model.toLowerCase().replace(/^[a-z]+\//, '');
+    const match = FAMILY_PATTERNS.find(([pattern]) => pattern.test(normalized));
+    // Unknown models (e.g. cursor-small) are closest to the current OpenAI encoding
+    return match ? match[1] : 'o200k';
+}
+
+export function countTokens(text: string, model: string): number {
+    return countTokensForFamily(text, getTokenizerFamily(model));
+}
+
+export function countTokensForFamily(text: string, family: TokenizerFamily): number {
+    if (!text) {
+        return 0;
+    }
+
+    const calibration = CALIBRATIONS[family];
+    const encoder = getEncoder(calibration.encoding);
+    if (!encoder) {
+        return Math.ceil(text.length / 4);
+    }
+
+    // Special-token markers in user text are counted as plain text rather than rejected
+    const bpeTokens = encoder.encode(text, [], []).length;
+    if (calibration.latinRatio === 1 && calibration.cjkRatio === 1) {
+        return bpeTokens;
+    }
+
+    const visibleChars = text.replace(/\s/g, '').length || 1;
+    const cjkShare = (text.match(CJK_PATTERN)?.length || 0) / visibleChars;
+    const ratio = calibration.latinRatio * (1 - cjkShare) + calibration.cjkRatio * cjkShare;
+    return Math.max(1, Math.round(bpeTokens * ratio));
+}
+
+function getEncoder(encoding: Encoding): Tiktoken | null {
+    if (!encoders.has(encoding)) {
+        try {
+            const ranksModule = require(RANK_MODULES[encoding]);
+            const ranks: TiktokenBPE = ranksModule.default ?? ranksModule;
+            encoders.set(encoding, new Tiktoken(ranks));
+        } catch (error) {
+            console.error(`❌ Failed to load ${encoding} tokenizer, falling back to estimates:`, error);
+            encoders.set(encoding, null);
+        }
+    }
+    return encoders.get(encoding) ?? null;
+}
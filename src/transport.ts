@@ -0,0 +1,177 @@
+export interface RequestPolicy {
+    // Abort the attempt after this many milliseconds
+    timeoutMs: number;
+    // Extra attempts after the first one. Only use for idempotent actions.
+    retries: number;
+    // Health probes must reach the backend even while the circuit is open
+    bypassCircuit?: boolean;
+}
+
+export interface TransportResponse {
+    status: number;
+    statusText: string;
+    ok: boolean;
+    headers: Headers;
+    text: string;
+}
+
+export type TransportErrorKind = 'timeout' | 'network' | 'circuit-open';
+
+export class TransportError extends Error {
+    constructor(public readonly kind: TransportErrorKind, message: string) {
+        super(message);
+        this.name = 'TransportError';
+    }
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30000;
+
+/**
+ * Opens after a run of consecutive failures so background pollers stop
+ * hitting a dead backend, then lets a single trial request through once
+ * the cool-down has passed.
+ */
+export class CircuitBreaker {
+    private failures = 0;
+    private openedAt: number | undefined;
+    private trialInFlight = false;
+
+    constructor(
+        private readonly failureThreshold = 5,
+        private readonly resetTimeoutMs = 60000
+    ) {}
+
+    get isOpen(): boolean {
+        return this.openedAt !== undefined && Date.now() - this.openedAt < this.resetTimeoutMs;
+    }
+
+    canRequest(): boolean {
+        if (this.openedAt === undefined) {
+            return true;
+        }
+        if (this.isOpen || this.trialInFlight) {
+            return false;
+        }
+        // Half-open: allow one trial request
+        this.trialInFlight = true;
+        return true;
+    }
+
+    recordSuccess() {
+        if (this.openedAt !== undefined) {
+            console.log('🟢 Circuit closed, backend reachable again');
+        }
+        this.failures = 0;
+        this.openedAt = undefined;
+        this.trialInFlight = false;
+    }
+
+    recordFailure() {
+        this.failures++;
+        this.trialInFlight = false;
+        if (this.openedAt !== undefined || this.failures >= this.failureThreshold) {
+            if (this.openedAt === undefined) {
+                console.warn(`🔴 Circuit opened after ${this.failures} consecutive failures`);
+            }
+            this.openedAt = Date.now();
+        }
+    }
+}
+
+/**
+ * Thin fetch wrapper adding timeouts, retries with jittered exponential
+ * backoff (honouring Retry-After) and a shared circuit breaker.
+ */
+export class HttpTransport {
+    readonly circuit = new CircuitBreaker();
+
+    async request(url: string, init: RequestInit, policy: RequestPolicy): Promise<TransportResponse> {
+        if (!policy.bypassCircuit && !this.circuit.canRequest()) {
+            throw new TransportError('circuit-open', 'Backend temporarily unavailable, skipping request');
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            let response: TransportResponse;
+            try {
+                response = await this.attempt(url, init, policy.timeoutMs);
+            } catch (error) {
+                this.circuit.recordFailure();
+                if (attempt >= policy.retries || this.circuitTripped(policy)) {
+                    throw error;
+                }
+                const delay = this.backoffDelay(attempt);
+                console.warn(`🔁 Request failed (${(error as Error).message}), retrying in ${delay}ms`);
+                await sleep(delay);
+                continue;
+            }
+
+            if (response.status >= 500) {
+                this.circuit.recordFailure();
+            } else {
+                this.circuit.recordSuccess();
+            }
+
+            if (!RETRYABLE_STATUSES.has(response.status) || attempt >= policy.retries || this.circuitTripped(policy)) {
+                return response;
+            }
+
+            const delay = this.retryAfterDelay(response.headers) ?? this.backoffDelay(attempt);
+            console.warn(`🔁 HTTP ${response.status}, retrying in ${delay}ms`);
+            await sleep(delay);
+        }
+    }
+
+    private circuitTripped(policy: RequestPolicy): boolean {
+        return !policy.bypassCircuit && this.circuit.isOpen;
+    }
+
+    private async attempt(url: string, init: RequestInit, timeoutMs: number): Promise<TransportResponse> {
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+        try {
+            const response = await fetch(url, { ...init, signal: controller.signal });
+            const text = await response.text();
+            return {
+                status: response.status,
+                statusText: response.statusText,
+                ok: response.ok,
+                headers: response.headers,
+                text
+            };
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new TransportError('timeout', `Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+            }
+            throw new TransportError('network', error instanceof Error ? error.message : 'Network request failed');
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    // Full jitter: random delay between 0 and the exponential cap
+    private backoffDelay(attempt: number): number {
+        const cap = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+        return Math.round(Math.random() * cap);
+    }
+
+    private retryAfterDelay(headers: Headers): number | undefined {
+        const value = headers.get('retry-after');
+        if (!value) {
+            return undefined;
+        }
+
+        const seconds = Number(value);
+        const delay = Number.isFinite(seconds)
+            ? seconds * 1000
+            : Date.parse(value) - Date.now();
+
+        return Number.isFinite(delay) ? Math.min(MAX_BACKOFF_MS, Math.max(0, delay)) : undefined;
+    }
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,305 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AnalyticsData, TrackUsageResult, UsageData } from './api';
+import { PricingCatalog } from './pricing';
+import { countTokens } from './tokenizer';
+
+export type LedgerStatus = 'tracked' | 'queued' | 'dropped';
+export type LedgerGroupBy = 'day' | 'model' | 'file' | 'project' | 'branch' | 'commit';
+export type LedgerScope = 'global' | 'workspace';
+
+export interface LedgerEntry {
+    // Idempotency key of the usage event; later lines with the same id amend it
+    id: string;
+    timestamp: string;
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    tokens: number;
+    // USD; estimated from the pricing catalog until the backend reports a cost
+    cost: number;
+    costEstimated: boolean;
+    filePath?: string;
+    language?: string;
+    projectId?: string;
+    workspacePath?: string;
+    repository?: string;
+    branch?: string;
+    // HEAD when the interaction happened; the work lands in the commit after it
+    commit?: string;
+    dirty?: boolean;
+    usageId?: string;
+    status: LedgerStatus;
+}
+
+// A prompt optimization the user applied, stored alongside usage but never counted as spend
+export interface OptimizationRecord {
+    kind: 'optimization';
+    id: string;
+    timestamp: string;
+    model: string;
+    originalTokens: number;
+    optimizedTokens: number;
+    // USD saved per call with the optimized prompt
+    savings: number;
+    filePath?: string;
+    language?: string;
+    projectId?: string;
+    workspacePath?: string;
+    repository?: string;
+    branch?: string;
+    commit?: string;
+}
+
+export interface LedgerQuery {
+    since?: Date;
+    until?: Date;
+    projectId?: string;
+    workspacePath?: string;
+    repository?: string;
+    branch?: string;
+}
+
+export interface LedgerBucket {
+    key: string;
+    requests: number;
+    tokens: number;
+    cost: number;
+}
+
+export interface LedgerStorage {
+    global: vscode.Uri;
+    // Undefined when no folder is open
+    workspace?: vscode.Uri;
+}
+
+interface LedgerContents {
+    usage: LedgerEntry[];
+    optimizations: OptimizationRecord[];
+}
+
+const LEDGER_FILE = 'usage-ledger.jsonl';
+
+/**
+ * Append-only JSONL record of every usage event tracked from this machine,
+ * kept in extension storage so history survives backend outages. Queued
+ * events are written immediately and amended once the backend accepts them.
+ * Applied prompt optimizations are recorded in the same file.
+ */
+export class UsageLedger {
+    private writes: Promise<void> = Promise.resolve();
+    private cache: { file: string; size: number; mtimeMs: number; contents: LedgerContents } | undefined;
+
+    constructor(
+        private readonly storage: LedgerStorage,
+        private readonly pricing: PricingCatalog
+    ) {}
+
+    get scope(): LedgerScope {
+        const scope = vscode.workspace.getConfiguration('costKatana.ledger').get<LedgerScope>('scope', 'global');
+        return scope === 'workspace' && this.storage.workspace ? 'workspace' : 'global';
+    }
+
+    get fileUri(): vscode.Uri {
+        const dir = this.scope === 'workspace' ? this.storage.workspace! : this.storage.global;
+        return vscode.Uri.joinPath(dir, LEDGER_FILE);
+    }
+
+    record(usageData: UsageData, status: LedgerStatus, result?: TrackUsageResult): Promise<void> {
+        const inputTokens = countTokens(usageData.prompt, usageData.model);
+        const outputTokens = countTokens(usageData.response, usageData.model);
+        const backendCost = result ? parseFloat(String(result.cost).replace(/[^0-9.]/g, '')) : NaN;
+        const estimate = this.pricing.estimateCost(
+            usageData.model,
+            { inputTokens, outputTokens },
+            usageData.codeContext?.file_path ? vscode.Uri.file(usageData.codeContext.file_path) : undefined
+        );
+
+        return this.append({
+            id: usageData.idempotencyKey || `${usageData.timestamp || Date.now()}`,
+            timestamp: usageData.timestamp || new Date().toISOString(),
+            model: usageData.model,
+            inputTokens,
+            outputTokens,
+            tokens: result?.tokens || inputTokens + outputTokens,
+            cost: Number.isFinite(backendCost) ? backendCost : estimate?.totalCost || 0,
+            costEstimated: !Number.isFinite(backendCost),
+            filePath: usageData.codeContext?.file_path,
+            language: usageData.codeContext?.language,
+            projectId: usageData.projectId,
+            workspacePath: usageData.workspace?.path,
+            repository: usageData.codeContext?.git?.repository,
+            branch: usageData.codeContext?.git?.branch,
+            commit: usageData.codeContext?.git?.commit,
+            dirty: usageData.codeContext?.git?.dirty,
+            usageId: result?.usage_id,
+            status
+        });
+    }
+
+    recordOptimization(record: Omit<OptimizationRecord, 'kind' | 'id' | 'timestamp'>): Promise<void> {
+        return this.append({
+            kind: 'optimization',
+            id: randomUUID(),
+            timestamp: new Date().toISOString(),
+            ...record
+        });
+    }
+
+    // Mark a queued event that the backend rejected for good
+    markDropped(id: string): Promise<void> {
+        return this.append({ id, status: 'dropped' });
+    }
+
+    // Entries after amendments are applied, oldest first. Dropped events are excluded.
+    async entries(query: LedgerQuery = {}): Promise<LedgerEntry[]> {
+        const { usage } = await this.load();
+        return usage.filter(entry => entry.status !== 'dropped' && matches(entry, query));
+    }
+
+    async optimizations(query: LedgerQuery = {}): Promise<OptimizationRecord[]> {
+        const { optimizations } = await this.load();
+        return optimizations.filter(record => matches(record, query));
+    }
+
+    async aggregate(groupBy: LedgerGroupBy, query: LedgerQuery = {}): Promise<LedgerBucket[]> {
+        const buckets = new Map<string, LedgerBucket>();
+        for (const entry of await this.entries(query)) {
+            const key = groupKey(entry, groupBy);
+            const bucket = buckets.get(key) || { key, requests: 0, tokens: 0, cost: 0 };
+            bucket.requests++;
+            bucket.tokens += entry.tokens;
+            bucket.cost += entry.cost;
+            buckets.set(key, bucket);
+        }
+
+        const result = [...buckets.values()];
+        return groupBy === 'day'
+            ? result.sort((a, b) => a.key.localeCompare(b.key))
+            : result.sort((a, b) => b.cost - a.cost);
+    }
+
+    // Month-to-date analytics in the backend's shape, for use while it is unreachable
+    async toAnalytics(query: LedgerQuery = {}): Promise<AnalyticsData> {
+        const now = new Date();
+        const entries = await this.entries({ ...query, since: new Date(now.getFullYear(), now.getMonth(), 1) });
+        const totalCost = entries.reduce((sum, entry) => sum + entry.cost, 0);
+        const totalTokens = entries.reduce((sum, entry) => sum + entry.tokens, 0);
+
+        return {
+            summary: {
+                total_spending_this_month: totalCost.toFixed(2),
+                budget_used: '',
+                active_projects: new Set(entries.map(entry => entry.projectId).filter(Boolean)).size
+            },
+            cursor_specific: {
+                total_requests: entries.length,
+                average_tokens_per_request: entries.length > 0 ? Math.round(totalTokens / entries.length) : 0,
+                recent_activity: entries.slice(-10).reverse().map(entry => ({
+                    model: entry.model,
+                    tokens: entry.tokens,
+                    cost: entry.cost.toFixed(4),
+                    timestamp: entry.timestamp,
+                    usage_id: entry.usageId
+                }))
+            }
+        };
+    }
+
+    // Changes whenever the ledger file does, including appends from other windows
+    async revision(): Promise<string> {
+        await this.writes;
+        const file = this.fileUri.fsPath;
+        try {
+            const stat = await fs.stat(file);
+            return `${file}:${stat.size}:${stat.mtimeMs}`;
+        } catch {
+            return `${file}:missing`;
+        }
+    }
+
+    private append(line: (Partial<LedgerEntry> & { id: string }) | OptimizationRecord): Promise<void> {
+        const file = this.fileUri.fsPath;
+        this.writes = this.writes
+            .then(async () => {
+                await fs.mkdir(path.dirname(file), { recursive: true });
+                await fs.appendFile(file, JSON.stringify(line) + '\n', 'utf8');
+            })
+            .catch(error => console.error('❌ Failed to write usage ledger:', error));
+        return this.writes;
+    }
+
+    private async load(): Promise<LedgerContents> {
+        await this.writes;
+        const file = this.fileUri.fsPath;
+
+        let stat;
+        try {
+            stat = await fs.stat(file);
+        } catch {
+            return { usage: [], optimizations: [] };
+        }
+        // Other windows append to the same file, so the cache is keyed on size and mtime
+        if (this.cache && this.cache.file === file && this.cache.size === stat.size && this.cache.mtimeMs === stat.mtimeMs) {
+            return this.cache.contents;
+        }
+
+        const merged = new Map<string, LedgerEntry>();
+        const optimizations: OptimizationRecord[] = [];
+        const text = await fs.readFile(file, 'utf8');
+        for (const line of text.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                const record = JSON.parse(line);
+                if (record.kind === 'optimization') {
+                    optimizations.push(record as OptimizationRecord);
+                } else {
+                    merged.set(record.id, { ...merged.get(record.id), ...record } as LedgerEntry);
+                }
+            } catch {
+                // A torn final line from a crashed write is skipped
+            }
+        }
+
+        const byTime = (a: { timestamp: string }, b: { timestamp: string }) => Date.parse(a.timestamp) - Date.parse(b.timestamp);
+        const contents: LedgerContents = {
+            usage: [...merged.values()].filter(entry => entry.timestamp && entry.model).sort(byTime),
+            optimizations: optimizations.sort(byTime)
+        };
+        this.cache = { file, size: stat.size, mtimeMs: stat.mtimeMs, contents };
+        return contents;
+    }
+}
+
+function matches(entry: LedgerEntry | OptimizationRecord, query: LedgerQuery): boolean {
+    const time = Date.parse(entry.timestamp);
+    return (!query.since || time >= query.since.getTime())
+        && (!query.until || time < query.until.getTime())
+        && (!query.projectId || entry.projectId === query.projectId)
+        && (!query.workspacePath || entry.workspacePath === query.workspacePath)
+        && (!query.repository || entry.repository === query.repository)
+        && (!query.branch || entry.branch === query.branch);
+}
+
+function groupKey(entry: LedgerEntry, groupBy: LedgerGroupBy): string {
+    switch (groupBy) {
+        case 'day': {
+            const date = new Date(entry.timestamp);
+            return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+        }
+        case 'model':
+            return entry.model;
+        case 'file':
+            return entry.filePath ? vscode.workspace.asRelativePath(entry.filePath) : '(no file)';
+        case 'project':
+            return entry.projectId || '(no project)';
+        case 'branch':
+            return entry.branch || '(no branch)';
+        case 'commit':
+            return entry.commit || '(no commit)';
+    }
+}
@@ -0,0 +1,212 @@
+import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
+import { APIResponse, CostKatanaAPI, TrackUsageResult, UsageData } from './api';
+import { UsageLedger } from './usageLedger';
+
+interface QueuedUsage {
+    usageData: UsageData & { idempotencyKey: string; timestamp: string };
+    queuedAt: string;
+    attempts: number;
+    lastError?: string;
+}
+
+export interface UsageQueueStatus {
+    pending: number;
+    lastFlushAt?: string;
+    lastFlushCount?: number;
+    lastError?: string;
+}
+
+export interface QueuedTrackResult {
+    result: APIResponse<TrackUsageResult>;
+    queued: boolean;
+}
+
+const QUEUE_KEY = 'costKatana.usageQueue';
+const STATUS_KEY = 'costKatana.usageQueueStatus';
+const MAX_QUEUE_SIZE = 1000;
+const MAX_ATTEMPTS = 5;
+const REPLAY_INTERVAL_MS = 30000;
+
+/**
+ * Persists trackUsage events that could not reach the backend and replays
+ * them in order once the connection is validated again. Every event is
+ * also written to the local usage ledger.
+ */
+export class UsageQueue implements vscode.Disposable {
+    private flushing: Promise<number> | undefined;
+    private replayTimer: NodeJS.Timeout | undefined;
+
+    constructor(
+        private readonly state: vscode.Memento,
+        private readonly api: CostKatanaAPI,
+        private readonly ledger: UsageLedger
+    ) {
+        if (this.getQueue().length > 0) {
+            this.scheduleReplay();
+        }
+    }
+
+    // Track usage, falling back to the offline queue on network failure
+    async track(usageData: UsageData): Promise<QueuedTrackResult> {
+        const entry: QueuedUsage['usageData'] = {
+            ...usageData,
+            idempotencyKey: usageData.idempotencyKey || randomUUID(),
+            timestamp: usageData.timestamp || new Date().toISOString()
+        };
+
+        // Keep ordering: never jump ahead of events that are still waiting
+        if (this.getQueue().length > 0) {
+            await this.enqueue(entry);
+            await this.ledger.record(entry, 'queued');
+            return { result: this.queuedResponse(), queued: true };
+        }
+
+        const result = await this.api.trackUsage(entry);
+        if (result.offline) {
+            await this.enqueue(entry);
+            await this.ledger.record(entry, 'queued');
+            return { result: this.queuedResponse(), queued: true };
+        }
+
+        if (result.success) {
+            await this.ledger.record(entry, 'tracked', result.data);
+        }
+        return { result, queued: false };
+    }
+
+    getStatus(): UsageQueueStatus {
+        return {
+            ...this.state.get<Omit<UsageQueueStatus, 'pending'>>(STATUS_KEY, {}),
+            pending: this.getQueue().length
+        };
+    }
+
+    // Replay queued events in order. Returns how many were delivered.
+    flush(): Promise<number> {
+        if (!this.flushing) {
+            this.flushing = this.doFlush().finally(() => {
+                this.flushing = undefined;
+            });
+        }
+        return this.flushing;
+    }
+
+    dispose() {
+        this.stopReplay();
+    }
+
+    private async doFlush(): Promise<number> {
+        let delivered = 0;
+        let lastError: string | undefined;
+
+        while (true) {
+            const next = this.getQueue()[0];
+            if (!next) {
+                break;
+            }
+            const key = next.usageData.idempotencyKey;
+
+            console.log('📦 Replaying queued usage:', key);
+            const result = await this.api.trackUsage(next.usageData);
+
+            // The queue is re-read after every request, since events may be queued while it is in flight
+            if (result.success) {
+                delivered++;
+                await this.removeQueued(key);
+                await this.ledger.record(next.usageData, 'tracked', result.data);
+                continue;
+            }
+
+            lastError = result.error;
+            if (result.offline) {
+                console.log('📦 Backend still unreachable, keeping queue');
+                break;
+            }
+
+            const attempts = next.attempts + 1;
+            if (attempts >= MAX_ATTEMPTS) {
+                console.error('❌ Dropping queued usage after repeated rejection:', key, result.error);
+                await this.removeQueued(key);
+                await this.ledger.markDropped(key);
+                continue;
+            }
+
+            await this.state.update(QUEUE_KEY, this.getQueue().map(entry =>
+                entry.usageData.idempotencyKey === key ? { ...entry, attempts, lastError: result.error } : entry));
+            break;
+        }
+
+        await this.state.update(STATUS_KEY, {
+            lastFlushAt: new Date().toISOString(),
+            lastFlushCount: delivered,
+            lastError
+        });
+
+        if (this.getQueue().length === 0) {
+            this.stopReplay();
+        }
+
+        console.log(`📦 Queue flush finished: ${delivered} delivered, ${this.getQueue().length} pending`);
+        return delivered;
+    }
+
+    private async enqueue(usageData: QueuedUsage['usageData']) {
+        const queue = this.getQueue();
+        queue.push({ usageData, queuedAt: new Date().toISOString(), attempts: 0 });
+
+        const dropped = queue.length > MAX_QUEUE_SIZE ? queue.splice(0, queue.length - MAX_QUEUE_SIZE) : [];
+        if (dropped.length > 0) {
+            console.warn(`⚠️ Offline queue full, dropped ${dropped.length} oldest event(s)`);
+        }
+
+        await this.state.update(QUEUE_KEY, queue);
+        // Evicted events will never be sent, so they no longer count as spend
+        for (const entry of dropped) {
+            await this.ledger.markDropped(entry.usageData.idempotencyKey);
+        }
+        console.log(`📦 Usage queued for replay (${queue.length} pending)`);
+        this.scheduleReplay();
+    }
+
+    private removeQueued(idempotencyKey: string): Thenable<void> {
+        return this.state.update(QUEUE_KEY, this.getQueue().filter(entry => entry.usageData.idempotencyKey !== idempotencyKey));
+    }
+
+    private scheduleReplay() {
+        if (this.replayTimer) {
+            return;
+        }
+
+        this.replayTimer = setInterval(async () => {
+            try {
+                const health = await this.api.validateConnection();
+                if (health.success) {
+                    await this.flush();
+                }
+            } catch (error) {
+                // Silent fail for background replay
+            }
+        }, REPLAY_INTERVAL_MS);
+    }
+
+    private stopReplay() {
+        if (this.replayTimer) {
+            clearInterval(this.replayTimer);
+            this.replayTimer = undefined;
+        }
+    }
+
+    private getQueue(): QueuedUsage[] {
+        return [...this.state.get<QueuedUsage[]>(QUEUE_KEY, [])];
+    }
+
+    private queuedResponse(): APIResponse<TrackUsageResult> {
+        return {
+            success: false,
+            error: 'Backend unreachable, usage queued for replay',
+            message: 'Queued offline',
+            offline: true
+        };
+    }
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { AnalyticsData } from './api';
+import { ComparisonPrice } from './modelComparison';
+
+// Messages a page posts to the extension, e.g. from a `data-command` button
+export type WebviewMessage =
+    | { command: 'trackUsage' }
+    | { command: 'optimizePrompt' }
+    | { command: 'getTips' }
+    | { command: 'refresh' }
+    | { command: 'retry' }
+    | { command: 'priceComparison'; outputTokens: number; monthlyRequests: number };
+
+// Messages the extension posts to a page
+export type ExtensionMessage =
+    | { command: 'updateData'; data: AnalyticsData }
+    | { command: 'comparisonPrices'; prices: ComparisonPrice[] };
+
+export interface WebviewPage {
+    title: string;
+    // Interpolated values must already be escaped with `escapeHtml`
+    body: string;
+    styles?: string;
+    // Page script in `media/`, run after the shared webview script
+    script?: string;
+    // Loads the shared script without a page script, for `data-command` buttons
+    interactive?: boolean;
+    // Exposed to scripts as `costKatana.data`
+    data?: unknown;
+}
+
+export interface PanelOptions {
+    enableScripts?: boolean;
+    retainContextWhenHidden?: boolean;
+}
+
+const MEDIA_FOLDER = 'media';
+const SHARED_SCRIPT = 'webview.js';
+const WEBVIEW_COMMANDS = new Set<string>(['trackUsage', 'optimizePrompt', 'getTips', 'refresh', 'retry', 'priceComparison']);
+
+/**
+ * Renders every Cost Katana webview: a strict Content-Security-Policy with
+ * a fresh nonce per render, scripts loaded from `media/` rather than
+ * inlined, and page data passed as JSON instead of interpolated into code.
+ */
+export class WebviewRenderer {
+    constructor(private readonly extensionUri: vscode.Uri) {}
+
+    createPanel(viewType: string, title: string, column: vscode.ViewColumn, options: PanelOptions = {}): vscode.WebviewPanel {
+        return vscode.window.createWebviewPanel(viewType, title, column, {
+            enableScripts: options.enableScripts ?? false,
+            retainContextWhenHidden: options.retainContextWhenHidden,
+            localResourceRoots: [vscode.Uri.joinPath(this.extensionUri, MEDIA_FOLDER)]
+        });
+    }
+
+    render(webview: vscode.Webview, page: WebviewPage): string {
+        const nonce = randomBytes(16).toString('base64');
+        const csp = [
+            `default-src 'none'`,
+            `img-src ${webview.cspSource} data:`,
+            `style-src ${webview.cspSource} 'nonce-${nonce}'`,
+            `script-src 'nonce-${nonce}'`
+        ].join('; ');
+
+        const scripts = page.script || page.interactive ? [SHARED_SCRIPT, ...(page.script ? [page.script] : [])] : [];
+        const scriptTags = scripts
+            .map(script => `<script nonce="${nonce}" src="${webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, MEDIA_FOLDER, script))}"></script>`)
+            .join('\n');
+        // Not executed, and `<` is escaped so the data cannot close the element
+        const data = page.data === undefined
+            ? ''
+            : `<script type="application/json" id="cost-katana-data">${JSON.stringify(page.data).replace(/</g, '\\u003c')}</script>`;
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(page.title)}</title>
+    <style nonce="${nonce}">${page.styles || ''}</style>
+</head>
+<body>
+    ${page.body}
+    ${data}
+    ${scriptTags}
+</body>
+</html>`;
+    }
+}
+
+// Only well-formed messages reach the handler; anything else a page posts is ignored
+export function onWebviewMessage(
+    webview: vscode.Webview,
+    handler: (message: WebviewMessage) => unknown,
+    disposables?: vscode.Disposable[]
+): vscode.Disposable {
+    return webview.onDidReceiveMessage(message => {
+        if (isWebviewMessage(message)) {
+            handler(message);
+        } else {
+            console.warn('⚠️ Ignoring unexpected webview message:', message);
+        }
+    }, undefined, disposables);
+}
+
+export function postToWebview(webview: vscode.Webview, message: ExtensionMessage): Thenable<boolean> {
+    return webview.postMessage(message);
+}
+
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function isWebviewMessage(message: unknown): message is WebviewMessage {
+    if (typeof message !== 'object' || message === null
+        || typeof (message as { command?: unknown }).command !== 'string'
+        || !WEBVIEW_COMMANDS.has((message as { command: string }).command)) {
+        return false;
+    }
+    if ((message as { command: string }).command === 'priceComparison') {
+        const { outputTokens, monthlyRequests } = message as { outputTokens?: unknown; monthlyRequests?: unknown };
+        return isCount(outputTokens) && isCount(monthlyRequests);
+    }
+    return true;
+}
+
+function isCount(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+
+export interface WorkspaceProfile {
+    // Primary language first, using the setup-workspace language ids
+    languages: string[];
+    frameworks: string[];
+    llmSdks: string[];
+    // Manifests the profile was built from, relative to the folder
+    manifests: string[];
+}
+
+interface ManifestFindings {
+    languages: string[];
+    dependencies: string[];
+}
+
+type DependencyRules = Record<string, string>;
+
+const MANIFEST_GLOB = '**/{package.json,tsconfig.json,requirements*.txt,pyproject.toml,Pipfile,go.mod,Cargo.toml,pom.xml,build.gradle,build.gradle.kts,Gemfile,composer.json,*.csproj}';
+const EXCLUDE_GLOB = '**/{node_modules,vendor,.venv,venv,target,dist,build,out,.git}/**';
+const MAX_MANIFESTS = 100;
+const MAX_SOURCE_FILES = 2000;
+
+// Package names in these ecosystems carry suffixes (Maven starters, Go major versions, NuGet namespaces)
+const PREFIX_ECOSYSTEMS = new Set(['go', 'jvm', 'nuget']);
+
+const SOURCE_EXTENSIONS: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+    py: 'python',
+    java: 'java', kt: 'java',
+    cs: 'c#',
+    go: 'go',
+    rs: 'rust',
+    php: 'php',
+    rb: 'ruby'
+};
+
+// Dependency name (lower case) → display name, per ecosystem
+const FRAMEWORKS: Record<string, DependencyRules> = {
+    npm: {
+        'next': 'Next.js', 'react': 'React', 'react-native': 'React Native', 'vue': 'Vue', 'nuxt': 'Nuxt',
+        '@angular/core': 'Angular', 'svelte': 'Svelte', '@sveltejs/kit': 'SvelteKit', '@remix-run/react': 'Remix',
+        'astro': 'Astro', 'express': 'Express', 'fastify': 'Fastify', '@nestjs/core': 'NestJS', 'koa': 'Koa',
+        'electron': 'Electron'
+    },
+    python: {
+        'django': 'Django', 'flask': 'Flask', 'fastapi': 'FastAPI', 'streamlit': 'Streamlit', 'gradio': 'Gradio',
+        'torch': 'PyTorch', 'tensorflow': 'TensorFlow'
+    },
+    go: {
+        'github.com/gin-gonic/gin': 'Gin', 'github.com/labstack/echo': 'Echo', 'github.com/gofiber/fiber': 'Fiber',
+        'github.com/gorilla/mux': 'Gorilla Mux'
+    },
+    cargo: {
+        'actix-web': 'Actix Web', 'axum': 'Axum', 'rocket': 'Rocket', 'tauri': 'Tauri'
+    },
+    jvm: {
+        'spring-boot': 'Spring Boot', 'quarkus': 'Quarkus', 'micronaut': 'Micronaut'
+    },
+    ruby: {
+        'rails': 'Rails', 'sinatra': 'Sinatra', 'hanami': 'Hanami'
+    },
+    composer: {
+        'laravel/framework': 'Laravel', 'symfony/framework-bundle': 'Symfony', 'slim/slim': 'Slim'
+    },
+    nuget: {
+        'microsoft.aspnetcore': 'ASP.NET Core', 'microsoft.maui': '.NET MAUI'
+    }
+};
+
+const LLM_SDKS: Record<string, DependencyRules> = {
+    npm: {
+        'openai': 'OpenAI', '@azure/openai': 'Azure OpenAI', '@anthropic-ai/sdk': 'Anthropic',
+        '@google/generative-ai': 'Google Gemini', '@google/genai': 'Google Gemini', 'langchain': 'LangChain',
+        '@langchain/core': 'LangChain', 'llamaindex': 'LlamaIndex', 'ai': 'Vercel AI SDK',
+        '@aws-sdk/client-bedrock-runtime': 'AWS Bedrock', 'cohere-ai': 'Cohere', '@mistralai/mistralai': 'Mistral',
+        'groq-sdk': 'Groq'
+    },
+    python: {
+        'openai': 'OpenAI', 'anthropic': 'Anthropic', 'google-generativeai': 'Google Gemini', 'google-genai': 'Google Gemini',
+        'langchain': 'LangChain', 'langchain-core': 'LangChain', 'llama-index': 'LlamaIndex', 'litellm': 'LiteLLM',
+        'cohere': 'Cohere', 'mistralai': 'Mistral', 'groq': 'Groq', 'transformers': 'Hugging Face Transformers'
+    },
+    go: {
+        'github.com/sashabaranov/go-openai': 'OpenAI', 'github.com/openai/openai-go': 'OpenAI',
+        'github.com/anthropics/anthropic-sdk-go': 'Anthropic', 'github.com/google/generative-ai-go': 'Google Gemini',
+        'github.com/tmc/langchaingo': 'LangChain'
+    },
+    cargo: {
+        'async-openai': 'OpenAI', 'openai-api-rs': 'OpenAI'
+    },
+    jvm: {
+        'openai-java': 'OpenAI', 'langchain4j': 'LangChain4j', 'spring-ai': 'Spring AI', 'anthropic-java': 'Anthropic'
+    },
+    ruby: {
+        'ruby-openai': 'OpenAI', 'anthropic': 'Anthropic', 'langchainrb': 'LangChain'
+    },
+    composer: {
+        'openai-php/client': 'OpenAI', 'anthropic-php/client': 'Anthropic'
+    },
+    nuget: {
+        'openai': 'OpenAI', 'azure.ai.openai': 'Azure OpenAI', 'microsoft.semantickernel': 'Semantic Kernel',
+        'anthropic.sdk': 'Anthropic'
+    }
+};
+
+/**
+ * Infers languages, frameworks and LLM SDKs for a workspace folder from its
+ * manifests (including nested ones in monorepos), ordering languages by how
+ * many source files use them.
+ */
+export async function inspectWorkspace(folder: vscode.WorkspaceFolder): Promise<WorkspaceProfile> {
+    const manifestUris = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folder, MANIFEST_GLOB),
+        EXCLUDE_GLOB,
+        MAX_MANIFESTS
+    );
+
+    const languages = new Set<string>();
+    const frameworks = new Set<string>();
+    const llmSdks = new Set<string>();
+    const manifests: string[] = [];
+
+    for (const uri of manifestUris) {
+        const fileName = uri.path.substring(uri.path.lastIndexOf('/') + 1);
+        const ecosystem = getEcosystem(fileName);
+        if (!ecosystem) {
+            continue;
+        }
+
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch (error) {
+            console.error(`❌ Could not read ${uri.fsPath}:`, error);
+            continue;
+        }
+
+        const findings = parseManifest(fileName, ecosystem, text);
+        manifests.push(vscode.workspace.asRelativePath(uri, false));
+        findings.languages.forEach(language => languages.add(language));
+        for (const dependency of findings.dependencies) {
+            const framework = matchDependency(ecosystem, FRAMEWORKS[ecosystem], dependency);
+            if (framework) {
+                frameworks.add(framework);
+            }
+            const sdk = matchDependency(ecosystem, LLM_SDKS[ecosystem], dependency);
+            if (sdk) {
+                llmSdks.add(sdk);
+            }
+        }
+    }
+
+    // TypeScript projects also list JavaScript tooling; keep only the former unless there is real JS code
+    const sourceCounts = await countSourceFiles(folder);
+    if (languages.has('typescript') && !sourceCounts.javascript) {
+        languages.delete('javascript');
+    }
+    for (const [language, count] of Object.entries(sourceCounts)) {
+        if (count > 0) {
+            languages.add(language);
+        }
+    }
+
+    const profile: WorkspaceProfile = {
+        languages: [...languages].sort((a, b) => (sourceCounts[b] || 0) - (sourceCounts[a] || 0)),
+        frameworks: [...frameworks],
+        llmSdks: [...llmSdks],
+        manifests
+    };
+    console.log('🔎 Workspace profile:', profile);
+    return profile;
+}
+
+function getEcosystem(fileName: string): string | undefined {
+    if (fileName === 'package.json' || fileName === 'tsconfig.json') {
+        return 'npm';
+    }
+    if (/^requirements.*\.txt$/.test(fileName) || fileName === 'pyproject.toml' || fileName === 'Pipfile') {
+        return 'python';
+    }
+    if (fileName === 'go.mod') {
+        return 'go';
+    }
+    if (fileName === 'Cargo.toml') {
+        return 'cargo';
+    }
+    if (fileName === 'pom.xml' || fileName.startsWith('build.gradle')) {
+        return 'jvm';
+    }
+    if (fileName === 'Gemfile') {
+        return 'ruby';
+    }
+    if (fileName === 'composer.json') {
+        return 'composer';
+    }
+    if (fileName.endsWith('.csproj')) {
+        return 'nuget';
+    }
+    return undefined;
+}
+
+function parseManifest(fileName: string, ecosystem: string, text: string): ManifestFindings {
+    switch (ecosystem) {
+        case 'npm': {
+            if (fileName === 'tsconfig.json') {
+                return { languages: ['typescript'], dependencies: [] };
+            }
+            const manifest = parseJson(text);
+            const dependencies = Object.keys({
+                ...asRecord(manifest?.dependencies),
+                ...asRecord(manifest?.devDependencies),
+                ...asRecord(manifest?.peerDependencies)
+            });
+            return {
+                languages: dependencies.includes('typescript') ? ['typescript'] : ['javascript'],
+                dependencies
+            };
+        }
+        case 'python':
+            return { languages: ['python'], dependencies: parsePythonDependencies(fileName, text) };
+        case 'go':
+            return { languages: ['go'], dependencies: [...text.matchAll(/^\s*(?:require\s+)?([\w.-]+\.[\w.-]+\/[^\s]+)\s+v[\d.]/gm)].map(m => m[1]) };
+        case 'cargo':
+            return { languages: ['rust'], dependencies: parseTomlTableKeys(text, /^\[(?:.*\.)?(?:dev-|build-)?dependencies\]$/) };
+        case 'jvm':
+            return {
+                languages: ['java'],
+                dependencies: [
+                    ...[...text.matchAll(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/g)].map(m => m[1]),
+                    ...[...text.matchAll(/['"][\w.-]+:([\w.-]+)(?::[^'"]*)?['"]/g)].map(m => m[1])
+                ]
+            };
+        case 'ruby':
+            return { languages: ['ruby'], dependencies: [...text.matchAll(/^\s*gem\s+['"]([^'"]+)['"]/gm)].map(m => m[1]) };
+        case 'composer': {
+            const manifest = parseJson(text);
+            return { languages: ['php'], dependencies: Object.keys({ ...asRecord(manifest?.require), ...asRecord(manifest?.['require-dev']) }) };
+        }
+        case 'nuget':
+            return { languages: ['c#'], dependencies: [...text.matchAll(/<PackageReference\s+Include="([^"]+)"/g)].map(m => m[1]) };
+        default:
+            return { languages: [], dependencies: [] };
+    }
+}
+
+function parsePythonDependencies(fileName: string, text: string): string[] {
+    if (fileName.endsWith('.txt')) {
+        return text.split('\n')
+            .map(line => line.replace(/#.*/, '').trim())
+            .filter(line => line && !line.startsWith('-'))
+            .map(line => line.split(/[\s<>=!~;\[]/)[0]);
+    }
+
+    // PEP 621 / Poetry / Pipenv: quoted requirement strings plus dependency table keys
+    return [
+        ...[...text.matchAll(/^\s*["']([A-Za-z0-9][\w.-]*)\s*(?:\[[^\]]*\])?\s*(?:[<>=!~;].*)?["'],?\s*$/gm)].map(m => m[1]),
+        ...parseTomlTableKeys(text, /^\[(?:tool\.poetry\.(?:dev-)?dependencies|tool\.poetry\.group\.[\w-]+\.dependencies|packages|dev-packages)\]$/)
+    ];
+}
+
+function parseTomlTableKeys(text: string, tablePattern: RegExp): string[] {
+    const keys: string[] = [];
+    let inTable = false;
+    for (const rawLine of text.split('\n')) {
+        const line = rawLine.trim();
+        if (line.startsWith('[')) {
+            inTable = tablePattern.test(line);
+            continue;
+        }
+        const match = inTable ? line.match(/^["']?([\w.-]+)["']?\s*=/) : null;
+        if (match) {
+            keys.push(match[1]);
+        }
+    }
+    return keys;
+}
+
+function matchDependency(ecosystem: string, rules: DependencyRules | undefined, dependency: string): string | undefined {
+    if (!rules) {
+        return undefined;
+    }
+    const name = dependency.toLowerCase().replace(/_/g, '-');
+    if (rules[name]) {
+        return rules[name];
+    }
+    if (!PREFIX_ECOSYSTEMS.has(ecosystem)) {
+        return undefined;
+    }
+    // Longest prefix wins, e.g. spring-boot-starter-web → spring-boot
+    const key = Object.keys(rules)
+        .filter(rule => name.startsWith(`${rule}-`) || name.startsWith(`${rule}/`) || name.startsWith(`${rule}.`))
+        .sort((a, b) => b.length - a.length)[0];
+    return key ? rules[key] : undefined;
+}
+
+async function countSourceFiles(folder: vscode.WorkspaceFolder): Promise<Record<string, number>> {
+    const pattern = `**/*.{${Object.keys(SOURCE_EXTENSIONS).join(',')}}`;
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, pattern), EXCLUDE_GLOB, MAX_SOURCE_FILES);
+
+    const counts: Record<string, number> = {};
+    for (const uri of files) {
+        const language = SOURCE_EXTENSIONS[uri.path.substring(uri.path.lastIndexOf('.') + 1).toLowerCase()];
+        if (language) {
+            counts[language] = (counts[language] || 0) + 1;
+        }
+    }
+    return counts;
+}
+
+function parseJson(text: string): Record<string, unknown> | undefined {
+    try {
+        return asRecord(JSON.parse(text));
+    } catch {
+        return undefined;
+    }
+}
+
+// Manifests are user files, so any section may be missing or of the wrong type
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}